@@ -0,0 +1,30 @@
+// 描画なしで step の速さ (ticks/s) を測る
+//   npm run bench -- --agents 20000 --ticks 300 --param colonyCount=2
+import { parseArgs } from 'node:util';
+import { Simulation } from '../src/simulation';
+import { runBenchmark } from '../src/benchmark';
+import { parseParamOverrides } from './cli-params';
+
+const { values } = parseArgs({
+    options: {
+        agents: { type: 'string', default: '20000' },
+        ticks: { type: 'string', default: '300' },
+        warmup: { type: 'string', default: '100' },
+        seed: { type: 'string', default: '1' },
+        maze: { type: 'boolean', default: false },
+        param: { type: 'string', multiple: true, default: [] }
+    }
+});
+
+// 個体が巣から出そろうように、出撃速度はデフォルトより大きくしておく
+const agentCount = parseInt(values.agents!);
+const params = { spawnRate: Math.max(5, agentCount / 100), ...parseParamOverrides(values.param!), agentCount };
+const seed = parseInt(values.seed!);
+
+const sim = new Simulation(params, seed);
+if (values.maze) sim.reset(seed, { maze: true });
+
+const result = runBenchmark(sim, parseInt(values.ticks!), parseInt(values.warmup!));
+console.log(`agents: ${result.agents}`);
+console.log(`ticks: ${result.ticks} in ${result.seconds.toFixed(2)} s`);
+console.log(`ticks/s: ${result.ticksPerSecond.toFixed(1)}`);
@@ -0,0 +1,60 @@
+import { DEFAULT_PARAMS, type SimParams } from '../src/config';
+import { getRule, registeredRules, ruleValueType, setRuleValue, type RuleSetting } from '../src/rule-pipeline';
+
+// "key=value" 形式の指定を SimParams の部分オブジェクトに変換する
+// 型はデフォルト値から判定する (boolean / number)
+export function parseParamOverrides(entries: string[]): Partial<SimParams> {
+    const overrides: Partial<SimParams> = {};
+    for (const entry of entries) {
+        const [key, raw] = entry.split('=');
+        if (!Object.hasOwn(DEFAULT_PARAMS, key) || raw === undefined) {
+            throw new Error(`Unknown parameter: ${entry}`);
+        }
+        const k = key as keyof SimParams;
+        const isBoolean = typeof DEFAULT_PARAMS[k] === 'boolean';
+        const value = isBoolean ? raw === 'true' : parseFloat(raw);
+        // 真偽値は true / false だけを受け付ける (綴り間違いを false にしない)
+        if (isBoolean ? raw !== 'true' && raw !== 'false' : isNaN(value as number)) {
+            throw new Error(`Invalid value for ${key}: ${raw}`);
+        }
+        // @ts-ignore
+        overrides[k] = value;
+    }
+    return overrides;
+}
+
+// --ticks などの回数の指定 (1 以上の整数だけを受け付ける)
+export function parsePositiveInteger(option: string, raw: string): number {
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isInteger(value) || value <= 0) {
+        throw new Error(`--${option} must be a positive integer: ${raw}`);
+    }
+    return value;
+}
+
+// --rules "id,id,..." (有効にするルールを実行順に並べる。載せなかったルールは無効) と
+// --rule-param "id.key=value" / "id.enabled=true|false" を、現在の設定 base に重ねる
+export function parseRuleOptions(order: string | undefined, entries: string[], base: RuleSetting[]): RuleSetting[] {
+    let settings = base.map(s => ({ ...s, params: { ...s.params } }));
+    if (order !== undefined) {
+        const ids = order.split(',').map(id => id.trim()).filter(id => id !== '');
+        for (const id of ids) {
+            if (!getRule(id)) throw new Error(`Unknown rule: ${id} (${registeredRules().map(r => r.id).join(', ')})`);
+        }
+        settings = [
+            ...ids.map(id => ({ ...settings.find(s => s.id === id)!, enabled: true })),
+            ...settings.filter(s => !ids.includes(s.id)).map(s => ({ ...s, enabled: false }))
+        ];
+    }
+    for (const entry of entries) {
+        const [name, raw] = entry.split('=');
+        if (raw === undefined) throw new Error(`Unknown rule parameter: ${entry}`);
+        const isBoolean = ruleValueType(name) === 'boolean';
+        const value = isBoolean ? raw === 'true' : parseFloat(raw);
+        if (isBoolean ? raw !== 'true' && raw !== 'false' : isNaN(value as number)) {
+            throw new Error(`Invalid value for ${name}: ${raw}`);
+        }
+        setRuleValue(settings, name, value);
+    }
+    return settings;
+}
@@ -0,0 +1,95 @@
+// ブラウザなしでシミュレーションを実行し、統計を標準出力に書き出す
+//   npm run headless -- --ticks 5000 --every 500 --seed 42 --rule-param giveUp.enabled=true
+//   npm run headless -- --rules excitedDecay,contagion,sense,move,boundaries,obstacles,foraging --rule-param wiggle.amount=0.4
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Simulation } from '../src/simulation';
+import { randomSeed } from '../src/rng';
+import { applyScenario, parseScenario } from '../src/scenario';
+import { parseEvents } from '../src/events';
+import { defaultRuleSettings } from '../src/rule-pipeline';
+import { PresetTracker, SCENARIO_PRESETS, findPreset, presetScenario } from '../src/presets';
+import { parseParamOverrides, parsePositiveInteger, parseRuleOptions } from './cli-params';
+
+const { values } = parseArgs({
+    options: {
+        ticks: { type: 'string', default: '3000' },
+        every: { type: 'string', default: '100' },
+        seed: { type: 'string' },
+        maze: { type: 'boolean', default: false },
+        scenario: { type: 'string' },
+        events: { type: 'string' },
+        preset: { type: 'string' },
+        cascades: { type: 'string' }, // 発見ごとのカスケードの規模と深さを書き出すファイル
+        param: { type: 'string', multiple: true, default: [] },
+        rules: { type: 'string' },
+        'rule-param': { type: 'string', multiple: true, default: [] }
+    }
+});
+
+let ticks: number;
+let every: number;
+try {
+    ticks = parsePositiveInteger('ticks', values.ticks!);
+    every = parsePositiveInteger('every', values.every!);
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+
+const overrides = parseParamOverrides(values.param!);
+let seed = values.seed !== undefined ? parseInt(values.seed) : randomSeed();
+
+// 実験配置 (--scenario を指定したときは使わない)。計測値を share 列に出す
+const preset = values.preset !== undefined ? findPreset(values.preset) : null;
+if (values.preset !== undefined && !preset) {
+    console.error(`unknown preset: ${values.preset} (${SCENARIO_PRESETS.map(p => p.id).join(', ')})`);
+    process.exit(1);
+}
+const tracker = preset && !values.scenario ? new PresetTracker(preset) : null;
+
+// シナリオの配置とパラメータを使う。--seed / --param を指定すればそちらを優先する
+const scenario = values.scenario ? parseScenario(readFileSync(values.scenario, 'utf8')) : null;
+if (scenario && values.seed === undefined) seed = scenario.seed;
+// 行動ルールはシナリオ (なければ既定) の設定に重ねる。代謝の初期の貯蔵に効くので個体を作る前に決める
+const rules = parseRuleOptions(values.rules, values['rule-param']!, scenario?.rules ?? defaultRuleSettings());
+
+const sim = new Simulation(overrides, seed, rules);
+if (scenario) {
+    applyScenario(sim, { ...scenario, seed, params: { ...scenario.params, ...overrides }, rules });
+} else if (preset) {
+    applyScenario(sim, presetScenario(preset, sim.params, seed));
+} else if (values.maze) {
+    sim.reset(seed, { maze: true });
+}
+if (values.events) {
+    // シナリオに含まれるイベントは置き換える
+    sim.setEvents(parseEvents(readFileSync(values.events, 'utf8')));
+}
+console.error(`seed: ${seed}`);
+
+console.log('tick,total,foraging,returning,returningHome,inNest,excited2,excited1,giveUps,delivered,foodRemaining,onTrail,offTrail,gini,entropy' +
+    (tracker ? ',share' : ''));
+for (let t = 0; t < ticks; t++) {
+    sim.step();
+    tracker?.record(sim.tick, sim.store);
+    if (sim.tick % every === 0) {
+        const s = sim.getStats();
+        const m = sim.getMetrics()!;
+        const row: (string | number)[] = [
+            s.tick, s.total, s.foraging, s.returning, s.returningHome, s.inNest, s.excited2, s.excited1, s.giveUps,
+            s.deliveriesPerNest.reduce((a, b) => a + b, 0), s.foodRemaining,
+            m.onTrailFraction.toFixed(4), m.offTrailOccupancy.toFixed(4), m.gini.toFixed(4), m.entropy.toFixed(4)
+        ];
+        // 出力間隔の間に入った回数で数える
+        if (tracker) row.push(tracker.recentShare(every)?.toFixed(4) ?? '');
+        console.log(row.join(','));
+    }
+}
+
+const m = sim.getMetrics();
+const withdrawal = m && !m.withdrawalJudged ? 'n/a (single pheromone mode)' : m?.withdrawalTick ?? '-';
+console.error(`first discovery: ${m?.firstDiscoveryTick ?? '-'}, withdrawal: ${withdrawal}`);
+const c = sim.cascades.summary;
+console.error(`cascades: ${c.count}, recruited: ${c.recruited}, max size: ${c.maxSize}, max depth: ${c.maxDepth}`);
+if (values.cascades) writeFileSync(values.cascades, sim.cascades.toCSV(seed));
@@ -0,0 +1,46 @@
+// 選んだパラメータを進化戦略で探し、最良の値を JSON に書き出す (UI の「最適化結果を反映」で読み込める)
+//   npm run optimize -- scripts/optimize.example.json --out best.json --log history.csv
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import {
+    bestParamsFile, optimizationHistoryToCSV, runOptimization, validateOptimizeSpec, type OptimizeSpec
+} from '../src/optimize';
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        out: { type: 'string' },
+        log: { type: 'string' }
+    }
+});
+
+if (positionals.length !== 1) {
+    console.error('usage: npm run optimize -- <spec.json> [--out best.json] [--log history.csv]');
+    process.exit(1);
+}
+
+const spec = JSON.parse(readFileSync(positionals[0], 'utf8')) as OptimizeSpec;
+try {
+    validateOptimizeSpec(spec);
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+
+const started = Date.now();
+const result = runOptimization(spec, log => {
+    console.error(
+        `[gen ${log.generation + 1}/${spec.generations}] runs=${log.evaluations} best=${log.best.score.toPrecision(6)} ` +
+        `mean=${log.meanScore.toPrecision(6)} sigma=${log.sigma.toFixed(3)} ${JSON.stringify(log.best.params)}`
+    );
+});
+console.error(`done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+console.error(`best ${spec.objective}=${result.best.score.toPrecision(6)} ${JSON.stringify(result.best.params)}`);
+
+const json = JSON.stringify(bestParamsFile(spec, result), null, 2) + '\n';
+if (values.out) {
+    writeFileSync(values.out, json);
+} else {
+    process.stdout.write(json);
+}
+if (values.log) writeFileSync(values.log, optimizationHistoryToCSV(spec, result));
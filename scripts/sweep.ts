@@ -0,0 +1,38 @@
+// パラメータスイープを実行し、1行1実行の結果表 (CSV) を書き出す
+//   npm run sweep -- scripts/sweep.example.json --out results.csv
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { runSweep, sweepResultsToCSV, validateSweepSpec, type SweepSpec } from '../src/sweep';
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        out: { type: 'string' }
+    }
+});
+
+if (positionals.length !== 1) {
+    console.error('usage: npm run sweep -- <spec.json> [--out results.csv]');
+    process.exit(1);
+}
+
+const spec = JSON.parse(readFileSync(positionals[0], 'utf8')) as SweepSpec;
+try {
+    validateSweepSpec(spec);
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+
+const started = Date.now();
+const results = runSweep(spec, (r, total) => {
+    console.error(`[${r.run + 1}/${total}] seed=${r.seed} ${JSON.stringify(r.overrides)} delivered=${r.foodDelivered}`);
+});
+console.error(`done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+const csv = sweepResultsToCSV(spec, results);
+if (values.out) {
+    writeFileSync(values.out, csv);
+} else {
+    process.stdout.write(csv);
+}
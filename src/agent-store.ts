@@ -0,0 +1,68 @@
+// エージェントの状態を型付き配列 (struct-of-arrays) で持つ
+// Agent はこの配列の1行を読み書きするビューで、添字は sim.agents の並びと一致する
+// 配列を丸ごと切り出せるので、Worker へのスナップショット転送や描画が速い
+export class AgentStore {
+    count = 0;
+    capacity = 0;
+
+    x = new Float64Array(0);
+    y = new Float64Array(0);
+    angle = new Float64Array(0);
+    pheromoneStrength = new Float64Array(0);
+    carrying = new Float64Array(0);
+    searchTime = new Int32Array(0);
+    state = new Uint8Array(0);
+    excitedLevel = new Uint8Array(0);
+    colony = new Uint8Array(0);
+    givingUp = new Uint8Array(0);
+    // 残りのエネルギー (満タンが 1。代謝がオフなら使わない)
+    energy = new Float32Array(0);
+    // 興奮の出どころ: 属するカスケード (発見ごとの番号。なければ -1)、発見個体からの段数、興奮させた個体 (なければ -1)
+    cascadeId = new Int32Array(0);
+    cascadeDepth = new Uint8Array(0);
+    excitedBy = new Int32Array(0);
+    // 直近の sense() で読んだ左・正面・右のセンサー値 (観察用)
+    sensorLeft = new Float32Array(0);
+    sensorCenter = new Float32Array(0);
+    sensorRight = new Float32Array(0);
+
+    constructor(capacity: number = 1024) {
+        this.grow(capacity);
+    }
+
+    clear() {
+        this.count = 0;
+    }
+
+    // 1行確保して添字を返す (足りなければ倍に広げる)
+    add(): number {
+        if (this.count === this.capacity) this.grow(this.capacity * 2);
+        return this.count++;
+    }
+
+    private grow(capacity: number) {
+        const resize = <T extends Float64Array | Float32Array | Int32Array | Uint8Array>(old: T, make: (n: number) => T): T => {
+            const next = make(capacity);
+            next.set(old.subarray(0, this.count));
+            return next;
+        };
+        this.x = resize(this.x, n => new Float64Array(n));
+        this.y = resize(this.y, n => new Float64Array(n));
+        this.angle = resize(this.angle, n => new Float64Array(n));
+        this.pheromoneStrength = resize(this.pheromoneStrength, n => new Float64Array(n));
+        this.carrying = resize(this.carrying, n => new Float64Array(n));
+        this.searchTime = resize(this.searchTime, n => new Int32Array(n));
+        this.state = resize(this.state, n => new Uint8Array(n));
+        this.excitedLevel = resize(this.excitedLevel, n => new Uint8Array(n));
+        this.colony = resize(this.colony, n => new Uint8Array(n));
+        this.givingUp = resize(this.givingUp, n => new Uint8Array(n));
+        this.energy = resize(this.energy, n => new Float32Array(n));
+        this.cascadeId = resize(this.cascadeId, n => new Int32Array(n));
+        this.cascadeDepth = resize(this.cascadeDepth, n => new Uint8Array(n));
+        this.excitedBy = resize(this.excitedBy, n => new Int32Array(n));
+        this.sensorLeft = resize(this.sensorLeft, n => new Float32Array(n));
+        this.sensorCenter = resize(this.sensorCenter, n => new Float32Array(n));
+        this.sensorRight = resize(this.sensorRight, n => new Float32Array(n));
+        this.capacity = capacity;
+    }
+}
@@ -0,0 +1,414 @@
+import { AgentState, PheromoneType } from './config';
+import type { AgentStore } from './agent-store';
+import type { PheromoneGrid } from './pheromone';
+import type { Rng } from './rng';
+import type { Simulation } from './simulation';
+import { isDepleted, takeFood, type FoodSource, type Nest } from './world';
+
+// 状態の数値は AgentStore の型付き配列に置き、このクラスはその1行へのビューになる
+// 1ティックの更新の手順は行動ルール (rule-pipeline.ts, rules/) が決める。ここには各ルールが使う操作を置く
+export class Agent {
+    readonly index: number; // AgentStore 内の行 (= sim.agents での位置)
+    private readonly store: AgentStore;
+    nest: Nest | null; // 巣の中で待機しているときの巣
+    homeNest: Nest | null = null; // 最後に着いた巣 (代謝で補給する巣。findHomeNest で使う)
+
+    get x(): number { return this.store.x[this.index]; }
+    set x(v: number) { this.store.x[this.index] = v; }
+    get y(): number { return this.store.y[this.index]; }
+    set y(v: number) { this.store.y[this.index] = v; }
+    // ラジアン
+    get angle(): number { return this.store.angle[this.index]; }
+    set angle(v: number) { this.store.angle[this.index] = v; }
+    get state(): AgentState { return this.store.state[this.index]; }
+    set state(v: AgentState) { this.store.state[this.index] = v; }
+
+    // 「巣からの距離感」または「餌からの距離感」を表現するためのタイマー
+    // これにより、濃いフェロモン（最近通った場所）を作れる
+    get pheromoneStrength(): number { return this.store.pheromoneStrength[this.index]; }
+    set pheromoneStrength(v: number) { this.store.pheromoneStrength[this.index] = v; }
+    // 0:通常, 1:伝播, 2:発信源
+    get excitedLevel(): number { return this.store.excitedLevel[this.index]; }
+    set excitedLevel(v: number) { this.store.excitedLevel[this.index] = v; }
+    get searchTime(): number { return this.store.searchTime[this.index]; }
+    set searchTime(v: number) { this.store.searchTime[this.index] = v; }
+    get givingUp(): boolean { return this.store.givingUp[this.index] === 1; }
+    set givingUp(v: boolean) { this.store.givingUp[this.index] = v ? 1 : 0; }
+    // 運んでいる餌の量
+    get carrying(): number { return this.store.carrying[this.index]; }
+    set carrying(v: number) { this.store.carrying[this.index] = v; }
+    // 興奮の出どころ (cascade.ts)。興奮レベルが 0 の間は意味を持たない
+    get cascadeId(): number { return this.store.cascadeId[this.index]; }
+    set cascadeId(v: number) { this.store.cascadeId[this.index] = v; }
+    get cascadeDepth(): number { return this.store.cascadeDepth[this.index]; }
+    set cascadeDepth(v: number) { this.store.cascadeDepth[this.index] = v; }
+    get excitedBy(): number { return this.store.excitedBy[this.index]; }
+    set excitedBy(v: number) { this.store.excitedBy[this.index] = v; }
+    // 残りのエネルギー (満タンが 1。代謝がオンのときだけ減る)
+    get energy(): number { return this.store.energy[this.index]; }
+    set energy(v: number) { this.store.energy[this.index] = v; }
+    // 所属するコロニー (自分のコロニーの匂いだけをたどる)
+    get colony(): number { return this.store.colony[this.index]; }
+    set colony(v: number) { this.store.colony[this.index] = v; }
+
+    constructor(store: AgentStore, x: number, y: number, rng: Rng, colony: number = 0) {
+        this.store = store;
+        this.index = store.add();
+        this.x = x;
+        this.y = y;
+        this.angle = rng.next() * Math.PI * 2;
+        this.nest = null;
+        this.colony = colony;
+        this.resetLife();
+    }
+
+    // 生まれたときの状態に戻す (死んだ個体の行を新しい個体に使い回すときにも使う)
+    resetLife() {
+        this.state = AgentState.FORAGING;
+        this.pheromoneStrength = 1.0;
+        this.excitedLevel = 0;
+        this.searchTime = 0;
+        this.givingUp = false;
+        this.carrying = 0;
+        this.cascadeId = -1;
+        this.cascadeDepth = 0;
+        this.excitedBy = -1;
+        this.energy = 1;
+        this.recordSensors(0, 0, 0);
+    }
+
+    // エネルギーが尽きて死ぬ (運んでいた餌は失われる)
+    die() {
+        this.state = AgentState.DEAD;
+        this.nest = null;
+        this.carrying = 0;
+        this.excitedLevel = 0;
+        this.givingUp = false;
+    }
+
+    // 巣に入って待機する
+    enterNest(nest: Nest) {
+        this.state = AgentState.IN_NEST;
+        this.nest = nest;
+        this.homeNest = nest;
+        this.x = nest.x;
+        this.y = nest.y;
+        this.pheromoneStrength = 1.0;
+        this.excitedLevel = 0;
+        this.searchTime = 0;
+        this.givingUp = false;
+    }
+
+    // 巣から出撃する (巣はエディタで動かされている可能性があるので位置を取り直す)
+    leaveNest(rng: Rng) {
+        if (this.nest) {
+            this.x = this.nest.x;
+            this.y = this.nest.y;
+        }
+        this.nest = null;
+        this.state = AgentState.FORAGING;
+        this.angle = rng.next() * Math.PI * 2;
+    }
+
+    // 餌を見つけて発信源 (興奮レベル2) になる。ここから新しいカスケードが始まる
+    private startCascade(sim: Simulation) {
+        this.excitedLevel = 2;
+        this.cascadeId = sim.cascades.start(sim.tick, this.index, this.colony);
+        this.cascadeDepth = 0;
+        this.excitedBy = -1;
+    }
+
+    // source との接触で興奮する (source のカスケードの1段先になる)
+    exciteFrom(sim: Simulation, source: Agent) {
+        this.excitedLevel = 1;
+        this.cascadeId = source.cascadeId;
+        this.cascadeDepth = source.cascadeDepth + 1;
+        this.excitedBy = source.index;
+        sim.cascades.excite(sim.tick, this.cascadeId, source.index, this.index, this.cascadeDepth);
+    }
+
+    // 移動した線分ごと調べる (終点だけだと速い個体が薄い壁をすり抜ける)
+    handleObstacles(sim: Simulation, prevX: number, prevY: number) {
+        if (!sim.occupancy.isPathClear(prevX, prevY, this.x, this.y)) {
+            this.x = prevX;
+            this.y = prevY;
+            this.angle += Math.PI + (sim.rng.next() - 0.5);
+        }
+    }
+
+    // 直近のセンサー値 [左, 正面, 右]
+    get lastSensors(): [number, number, number] {
+        const s = this.store;
+        return [s.sensorLeft[this.index], s.sensorCenter[this.index], s.sensorRight[this.index]];
+    }
+
+    private recordSensors(left: number, center: number, right: number) {
+        this.store.sensorLeft[this.index] = left;
+        this.store.sensorCenter[this.index] = center;
+        this.store.sensorRight[this.index] = right;
+    }
+
+    // センサーの値 (type が null なら HOME と FOOD の合算)
+    // 壁の向こうは感知できないので画面外と同じく -1 を返す
+    // avoidance が正なら立入禁止の濃度 × avoidance だけ値を下げる (その方向へ曲がりにくくなる)
+    readSensor(sim: Simulation, ang: number, type: PheromoneType | null, avoidance: number = 0): number {
+        const x = this.x + Math.cos(ang) * sim.params.sensorDist;
+        const y = this.y + Math.sin(ang) * sim.params.sensorDist;
+        if (!sim.occupancy.isPathClear(this.x, this.y, x, y)) return -1;
+        const grid = sim.grids[this.colony];
+        let value = type !== null
+            ? grid.getLevel(x, y, type)
+            : grid.getLevel(x, y, PheromoneType.HOME) + grid.getLevel(x, y, PheromoneType.FOOD);
+        if (avoidance > 0 && value >= 0) {
+            // 壁 (-1) よりは魅力的なままにしておく
+            value = Math.max(-0.99, value - avoidance * grid.getLevel(x, y, PheromoneType.REPEL));
+        }
+        return value;
+    }
+
+    // repellentAvoidance: 探索中に立入禁止を避ける強さ (立入禁止ルールが無効なら 0)
+    sense(sim: Simulation, repellentAvoidance: number = 0) {
+        const params = sim.params;
+
+        if (this.state === AgentState.RETURNING_HOME) {
+            this.senseHomeward(sim);
+            return;
+        }
+
+        // 探索中のターゲットフェロモン（餌を探すならFOOD、巣に帰るならHOME）
+        const targetType = this.state === AgentState.FORAGING ? PheromoneType.FOOD : PheromoneType.HOME;
+
+        const sensorLeftAngle = this.angle - params.sensorAngle;
+        const sensorRightAngle = this.angle + params.sensorAngle;
+
+        // 探索中だけ立入禁止を避ける (餌を持ち帰る途中は巣へ急ぐ)
+        const avoid = this.state === AgentState.FORAGING ? repellentAvoidance : 0;
+        const vLeft = this.readSensor(sim, sensorLeftAngle, targetType, avoid);
+        const vCenter = this.readSensor(sim, this.angle, targetType, avoid);
+        const vRight = this.readSensor(sim, sensorRightAngle, targetType, avoid);
+        this.recordSensors(vLeft, vCenter, vRight);
+
+        // 濃度が高い方へ回転
+        let turn = params.turnSpeed;
+        if (this.excitedLevel > 0) {
+            turn *= params.excitedTurnSpeedMult;
+        }
+
+        if (vCenter > vLeft && vCenter > vRight) {
+            // そのまま進む
+        } else if (vCenter < vLeft && vCenter < vRight) {
+            // 左右どちらも強い -> ランダムに大きく旋回
+            this.angle += (sim.rng.next() - 0.5) * 2 * turn;
+        } else if (vLeft > vRight) {
+            this.angle -= turn;
+        } else if (vRight > vLeft) {
+            this.angle += turn;
+        }
+
+        // Uターン処理
+        if (params.uTurnChance > 0) {
+            let doUTurn = sim.rng.next() < params.uTurnChance;
+            // 進行方向のフェロモン濃度が薄い場合、Uターンしやすくする
+            // 閾値は 0.05 程度とする (最大1.0)
+            const forwardPheromone = vCenter + Math.max(vLeft, vRight);
+            if (forwardPheromone < 0.05) {
+                 // 濃度が薄い場合、確率をブースト (例: 10倍)
+                 if (sim.rng.next() < params.uTurnChance * 10) {
+                     doUTurn = true;
+                 }
+            }
+
+            if (doUTurn) {
+                this.angle += Math.PI;
+            }
+        }
+    }
+
+    // 諦めて帰巣中のナビゲーション
+    // 仲間の道 (どの匂いでもよい) をたどりつつ、経路積分で覚えている巣の方向へ少しずつ向きを寄せる
+    senseHomeward(sim: Simulation) {
+        this.senseAnyPheromone(sim);
+
+        const nest = this.findClosestNest(sim);
+        const toNest = Math.atan2(nest.y - this.y, nest.x - this.x);
+        // -PI ~ PI に正規化した角度差
+        const diff = Math.atan2(Math.sin(toNest - this.angle), Math.cos(toNest - this.angle));
+        const maxTurn = sim.params.turnSpeed * 0.5;
+        this.angle += Math.max(-maxTurn, Math.min(maxTurn, diff));
+    }
+
+    senseAnyPheromone(sim: Simulation) {
+        const params = sim.params;
+
+        const sensorLeftAngle = this.angle - params.sensorAngle;
+        const sensorRightAngle = this.angle + params.sensorAngle;
+
+        // HOMEとFOODの合算値を感知
+        const vLeft = this.readSensor(sim, sensorLeftAngle, null);
+        const vCenter = this.readSensor(sim, this.angle, null);
+        const vRight = this.readSensor(sim, sensorRightAngle, null);
+        this.recordSensors(vLeft, vCenter, vRight);
+
+        // 通常より敏感に回転
+        const turn = params.turnSpeed * 2.0;
+
+        if (vCenter > vLeft && vCenter > vRight) {
+            // そのまま
+        } else if (vCenter < vLeft && vCenter < vRight) {
+             this.angle += (sim.rng.next() - 0.5) * 2 * turn;
+        } else if (vLeft > vRight) {
+            this.angle -= turn;
+        } else if (vRight > vLeft) {
+            this.angle += turn;
+        }
+
+        // 何も感じない場合はランダムウォークを強める
+        if (vCenter + vLeft + vRight < 0.01) {
+             if (sim.rng.next() < 0.05) {
+                 this.angle += (sim.rng.next() - 0.5) * Math.PI;
+             }
+        }
+    }
+
+    handleBoundaries(grid: PheromoneGrid) {
+        if (this.x < 0) { this.x = 0; this.angle = Math.PI - this.angle; }
+        if (this.x >= grid.width) { this.x = grid.width - 1; this.angle = Math.PI - this.angle; }
+        if (this.y < 0) { this.y = 0; this.angle = -this.angle; }
+        if (this.y >= grid.height) { this.y = grid.height - 1; this.angle = -this.angle; }
+    }
+
+    // 自分のコロニーの最も近い巣を探す (コロニーの巣が残っていなければ全ての巣から)
+    findClosestNest(sim: Simulation): Nest {
+        let closestNest = sim.nests[0];
+        let minDist = Infinity;
+        let ownFound = false;
+
+        for (const nest of sim.nests) {
+            const own = nest.colony === this.colony;
+            if (ownFound && !own) continue;
+            const d = Math.hypot(this.x - nest.x, this.y - nest.y);
+            if ((own && !ownFound) || d < minDist) {
+                minDist = d;
+                closestNest = nest;
+                ownFound = own;
+            }
+        }
+        return closestNest;
+    }
+
+    // 自分の巣 (最後に着いた自分のコロニーの巣)
+    // その巣が消えたり自分のコロニーのものでなかったりすれば、一番近い自分のコロニーの巣を探し直して覚える
+    findHomeNest(sim: Simulation): Nest | null {
+        const home = this.homeNest;
+        if (home && home.colony === this.colony && sim.nests.includes(home)) return home;
+        const nest = this.findClosestNest(sim);
+        this.homeNest = nest.colony === this.colony ? nest : null;
+        return this.homeNest;
+    }
+
+    handleStateAndPheromones(sim: Simulation) {
+        const params = sim.params;
+        const grid = sim.grids[this.colony];
+
+        const closestNest = this.findClosestNest(sim);
+        const distToNest = Math.hypot(this.x - closestNest.x, this.y - closestNest.y);
+        const nestRadius = closestNest.r;
+
+        // 餌にいるか判定 (空になった餌場は餌場とみなさない)
+        let food: FoodSource | null = null;
+        for (const f of sim.foodSources) {
+            if (!isDepleted(f) && Math.hypot(this.x - f.x, this.y - f.y) < f.r) {
+                food = f;
+                break;
+            }
+        }
+
+        // 状態遷移とフェロモン補充
+        if (this.state === AgentState.RETURNING_HOME) {
+            // 諦めて帰巣中 -> 匂いは落とさない (ハズレのエリアを強化しない)
+            if (food && takeFood(food)) {
+                // 帰り道で偶然餌に出会ったら通常の帰巣に切り替える
+                sim.discoveries++;
+                this.carrying = 1;
+                this.state = AgentState.RETURNING;
+                this.givingUp = false;
+                this.searchTime = 0;
+                this.pheromoneStrength = food.quality;
+                this.startCascade(sim);
+            } else if (distToNest < nestRadius && params.enableSortieRegulation) {
+                // 規則B: 巣に入って次の出撃を待つ
+                this.enterNest(closestNest);
+            } else if (distToNest < nestRadius) {
+                // 巣に着いたらリセットして再び探索へ
+                this.homeNest = closestNest;
+                this.state = AgentState.FORAGING;
+                this.givingUp = false;
+                this.searchTime = 0;
+                this.pheromoneStrength = 1.0;
+                this.angle += Math.PI; // 反転
+            }
+
+        } else if (this.state === AgentState.FORAGING) {
+            // 餌を探している -> 通った道に「巣のフェロモン(HOME)」を落とす
+            // 巣に近いほど濃いフェロモンを落としたいので、時間経過で強度を減衰させる
+            grid.deposit(this.x, this.y, PheromoneType.HOME, this.pheromoneStrength);
+
+            if (food && takeFood(food)) {
+                // 餌を見つけた！
+                sim.discoveries++;
+                this.carrying = 1;
+                this.state = AgentState.RETURNING;
+                this.pheromoneStrength = food.quality; // 餌フェロモン強度MAX (質の良い餌ほど濃く長い道になる)
+                this.angle += Math.PI; // 反転
+                this.startCascade(sim);
+            } else {
+                // 歩くたびにフェロモン強度が下がる（巣から遠ざかるほど薄くなる＝勾配ができる）
+                if (params.usePheromoneGradient) {
+                    this.pheromoneStrength = Math.max(0, this.pheromoneStrength - 0.005);
+                } else {
+                    this.pheromoneStrength = 1.0;
+                }
+            }
+
+            // 巣にいるなら強度リチャージ
+            if (distToNest < nestRadius) {
+                this.pheromoneStrength = 1.0;
+            }
+
+        } else {
+            // 巣に帰っている -> 通った道に「餌のフェロモン(FOOD)」を落とす
+            grid.deposit(this.x, this.y, PheromoneType.FOOD, this.pheromoneStrength);
+
+            if (distToNest < nestRadius) {
+                // 巣に着いた！
+                this.homeNest = closestNest;
+                sim.receiveFood(closestNest, this.carrying);
+                this.carrying = 0;
+                if (this.state === AgentState.RETURNING && this.excitedLevel === 2) {
+                    closestNest.surgeTimer = params.surgeDuration;
+                }
+                if (params.enableSortieRegulation) {
+                    // 規則B: 巣に入って次の出撃を待つ
+                    this.enterNest(closestNest);
+                    return;
+                }
+                this.state = AgentState.FORAGING;
+                this.pheromoneStrength = 1.0; // 巣フェロモン強度MAX
+                this.angle += Math.PI; // 反転
+                this.excitedLevel = 0;
+            } else {
+                // 歩くたびに強度が下がる（餌場から遠ざかるほど薄くなる）
+                if (params.usePheromoneGradient) {
+                    this.pheromoneStrength = Math.max(0, this.pheromoneStrength - 0.005);
+                } else {
+                    this.pheromoneStrength = 1.0;
+                }
+            }
+
+            // 餌場にいるなら強度リチャージ（餌場内をうろついている間）
+            if (food) {
+                this.pheromoneStrength = food.quality;
+            }
+        }
+    }
+}
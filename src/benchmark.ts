@@ -0,0 +1,27 @@
+import type { Simulation } from './simulation';
+
+// 描画なしで step だけを回し、1秒あたりのティック数を測る
+// ブラウザでは Worker 内で、Node では scripts/bench.ts から呼ぶ
+
+export interface BenchmarkResult {
+    agents: number;
+    ticks: number;
+    seconds: number;
+    ticksPerSecond: number;
+}
+
+// warmup: 計測前に回すティック数 (出撃が一巡し、JIT が温まるまで)
+export function runBenchmark(sim: Simulation, ticks: number, warmup: number = 100): BenchmarkResult {
+    for (let i = 0; i < warmup; i++) sim.step();
+
+    const start = performance.now();
+    for (let i = 0; i < ticks; i++) sim.step();
+    const seconds = (performance.now() - start) / 1000;
+
+    return {
+        agents: sim.agents.length,
+        ticks,
+        seconds,
+        ticksPerSecond: seconds > 0 ? ticks / seconds : Infinity
+    };
+}
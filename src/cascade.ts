@@ -0,0 +1,101 @@
+// 興奮の連鎖 (カスケード) の記録
+// 餌の発見ごとに1つのカスケードを作り、そこから誰が誰を興奮させたかをたどる
+// 規模 = 発見個体から (何段でも) 伝わって興奮した個体の数 (冷めてまた興奮した個体も1体と数える)
+// 深さ = 最も遠くまで伝わった段数
+
+export interface CascadeRecord {
+    id: number;
+    tick: number;       // 発見したティック
+    discoverer: number; // 発見個体の添字
+    colony: number;
+    size: number;
+    excitations: number; // 伝播の回数 (同じ個体が何度興奮しても数える)
+    depth: number;
+}
+
+export interface ExcitationRecord {
+    tick: number;
+    cascade: number;
+    from: number; // 興奮させた個体の添字
+    to: number;   // 興奮した個体の添字
+    depth: number; // to の段数 (発見個体の直接の相手が 1)
+}
+
+export interface CascadeSummary {
+    count: number;     // 発見の回数 (= カスケードの数)
+    recruited: number; // 伝播で興奮した延べ個体数
+    maxSize: number;
+    maxDepth: number;
+}
+
+// 長い実行でも記録が際限なく増えないように、これを超えた分は数えるだけにする
+const MAX_RECORDS = 200_000;
+
+export class CascadeTracker {
+    cascades: CascadeRecord[] = [];
+    excitations: ExcitationRecord[] = [];
+    private summaryValue: CascadeSummary = { count: 0, recruited: 0, maxSize: 0, maxDepth: 0 };
+    // カスケードごとの興奮した個体 (規模を数えるため。誰も興奮させなかったカスケードには作らない)
+    private members = new Map<number, Set<number>>();
+
+    reset() {
+        this.cascades = [];
+        this.excitations = [];
+        this.members.clear();
+        this.summaryValue = { count: 0, recruited: 0, maxSize: 0, maxDepth: 0 };
+    }
+
+    get summary(): CascadeSummary {
+        return { ...this.summaryValue };
+    }
+
+    // 記録しきれずに捨てた分があるか
+    get truncated(): boolean {
+        return this.summaryValue.count > this.cascades.length || this.summaryValue.recruited > this.excitations.length;
+    }
+
+    // 新しいカスケードの番号を返す (記録の上限を超えていたら -1。その後の伝播は数えるだけ)
+    start(tick: number, discoverer: number, colony: number): number {
+        this.summaryValue.count++;
+        if (this.cascades.length >= MAX_RECORDS) return -1;
+        const id = this.cascades.length;
+        this.cascades.push({ id, tick, discoverer, colony, size: 0, excitations: 0, depth: 0 });
+        return id;
+    }
+
+    excite(tick: number, cascade: number, from: number, to: number, depth: number) {
+        const summary = this.summaryValue;
+        summary.recruited++;
+        summary.maxDepth = Math.max(summary.maxDepth, depth);
+        const record = this.cascades[cascade];
+        if (record) {
+            let members = this.members.get(cascade);
+            if (!members) {
+                members = new Set();
+                this.members.set(cascade, members);
+            }
+            members.add(to);
+            record.size = members.size;
+            record.excitations++;
+            record.depth = Math.max(record.depth, depth);
+            summary.maxSize = Math.max(summary.maxSize, record.size);
+        }
+        if (this.excitations.length < MAX_RECORDS) this.excitations.push({ tick, cascade, from, to, depth });
+    }
+
+    // 発見ごとの規模と深さ
+    toCSV(seed: number): string {
+        const lines = [`# seed=${seed}`, 'cascade,tick,discoverer,colony,size,excitations,depth'];
+        for (const c of this.cascades) {
+            lines.push(`${c.id},${c.tick},${c.discoverer},${c.colony},${c.size},${c.excitations},${c.depth}`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    // 誰が誰を興奮させたか (1行1伝播)
+    excitationsToCSV(seed: number): string {
+        const lines = [`# seed=${seed}`, 'tick,cascade,from,to,depth'];
+        for (const e of this.excitations) lines.push(`${e.tick},${e.cascade},${e.from},${e.to},${e.depth}`);
+        return lines.join('\n') + '\n';
+    }
+}
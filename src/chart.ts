@@ -0,0 +1,104 @@
+import type { SimStats } from './simulation';
+import type { SeriesKey } from './timeseries';
+
+// 時系列グラフの描画 (直近 windowTicks ティック分のローリング表示)
+
+interface SeriesStyle {
+    label: string;
+    color: string;
+    value: (row: SimStats) => number;
+}
+
+// 色は統計パネルに合わせる
+const BASE_SERIES: Record<SeriesKey, Omit<SeriesStyle, 'value'>> = {
+    total: { label: '総個体数', color: '#eee' },
+    foraging: { label: '探索中', color: '#aaa' },
+    returning: { label: '帰巣中', color: '#f88' },
+    returningHome: { label: '諦めて帰巣中', color: '#8cf' },
+    inNest: { label: '巣で待機', color: '#c9f' },
+    excited2: { label: '興奮 (発見)', color: 'rgb(255, 150, 50)' },
+    excited1: { label: '興奮 (伝播)', color: 'rgb(255, 255, 100)' },
+    giveUps: { label: '諦め (累計)', color: '#8f8' },
+    foodRemaining: { label: '残りの餌', color: '#f6c' },
+    deaths: { label: '死亡 (累計)', color: '#c66' },
+    births: { label: '誕生 (累計)', color: '#6c6' }
+};
+
+function buildSeries(nestCount: number): SeriesStyle[] {
+    const series: SeriesStyle[] = (Object.keys(BASE_SERIES) as SeriesKey[]).map(key => ({
+        ...BASE_SERIES[key],
+        value: (row: SimStats) => row[key]
+    }));
+    for (let i = 0; i < nestCount; i++) {
+        series.push({
+            label: `巣${i} 持ち帰り量 (累計)`,
+            color: `hsl(${200 + i * 30}, 80%, 65%)`,
+            value: (row: SimStats) => row.deliveriesPerNest[i] ?? 0
+        });
+    }
+    return series;
+}
+
+export function drawTimeSeriesChart(ctx: CanvasRenderingContext2D, rows: SimStats[], windowTicks: number) {
+    const { width, height } = ctx.canvas;
+    const legendWidth = 130;
+    const plotW = width - legendWidth - 10;
+    const plotH = height - 20;
+
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    if (rows.length === 0) return;
+
+    const lastTick = rows[rows.length - 1].tick;
+    const startTick = Math.max(0, lastTick - windowTicks);
+    // 表示範囲の先頭を二分探索
+    let lo = 0;
+    let hi = rows.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (rows[mid].tick < startTick) lo = mid + 1; else hi = mid;
+    }
+    const visible = rows.slice(lo);
+
+    const nestCount = visible.reduce((n, r) => Math.max(n, r.deliveriesPerNest.length), 0);
+    const series = buildSeries(nestCount);
+
+    let maxValue = 1;
+    for (const row of visible) {
+        for (const s of series) maxValue = Math.max(maxValue, s.value(row));
+    }
+
+    const toX = (tick: number) => 5 + ((tick - startTick) / Math.max(1, windowTicks)) * plotW;
+    const toY = (v: number) => 10 + plotH - (v / maxValue) * plotH;
+
+    // 軸
+    ctx.strokeStyle = '#555';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(5, 10, plotW, plotH);
+    ctx.fillStyle = '#888';
+    ctx.font = '10px sans-serif';
+    ctx.fillText(String(maxValue), 8, 20);
+    ctx.fillText(`tick ${startTick} - ${lastTick}`, 8, height - 14);
+
+    // 折れ線 (横1pxあたり1点に間引く)
+    const stride = Math.max(1, Math.floor(visible.length / plotW));
+    for (const s of series) {
+        ctx.strokeStyle = s.color;
+        ctx.beginPath();
+        for (let i = 0; i < visible.length; i += stride) {
+            const x = toX(visible[i].tick);
+            const y = toY(s.value(visible[i]));
+            if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+    }
+
+    // 凡例
+    let ly = 20;
+    for (const s of series) {
+        ctx.fillStyle = s.color;
+        ctx.fillRect(width - legendWidth, ly - 8, 10, 3);
+        ctx.fillText(s.label, width - legendWidth + 15, ly - 4);
+        ly += 14;
+    }
+}
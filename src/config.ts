@@ -0,0 +1,111 @@
+// --- 設定と定数 ---
+export const WIDTH = 600;
+export const HEIGHT = 600;
+
+// フェロモンの種類
+export enum PheromoneType {
+    HOME = 0,  // 巣に戻るための匂い（青）
+    FOOD = 1,  // 餌場に行くための匂い（赤）
+    REPEL = 2  // 立入禁止の匂い (探しても見つからなかった場所。探索中の個体が避ける)
+}
+
+// エージェントの状態
+export enum AgentState {
+    FORAGING = 0,       // 餌を探している（巣の匂いを落とす）
+    RETURNING = 1,      // 巣に帰っている（餌の匂いを落とす）
+    RETURNING_HOME = 2, // 探索を諦めて巣に帰っている（餌なし、匂いは落とさない）
+    IN_NEST = 3,        // 巣の中で待機している（移動もセンサーもなし）
+    DEAD = 4            // エネルギーが尽きて死んだ (行は新しく生まれる個体に使い回す)
+}
+
+// 巣の外 (画面上) にいるか。巣で待機中と死んだ個体は移動・接触・密度の対象外
+export function isOnField(state: AgentState): boolean {
+    return state < AgentState.IN_NEST;
+}
+
+export interface SimParams {
+    agentCount: number;
+    moveSpeed: number;
+    homeEvaporationRate: number;  // HOME の1ティックあたりの残存率 (単一フェロモンモードではこちらを使う)
+    foodEvaporationRate: number;  // FOOD の1ティックあたりの残存率
+    homeDiffusionRate: number;    // HOME の拡散係数 (0 ~ 1。隣のセルへ広がる割合)
+    foodDiffusionRate: number;    // FOOD の拡散係数
+    pheromoneCap: number;         // 1セルあたりの濃度の上限 (飽和値)
+    sensorAngle: number; // ラジアン
+    sensorDist: number;
+    turnSpeed: number;   // ラジアン
+    nestCount: number;
+    foodCount: number;
+    colonyCount: number;          // コロニー数 (巣は順番にコロニーへ割り当てる。個体数はコロニーごと)
+    singlePheromoneMode: boolean;
+    uTurnChance: number;
+    excitedSpeedMult: number;
+    propagationChance: number;
+    excitedDecayRate: number;
+    usePheromoneGradient: boolean;
+    explorationResistance: number;
+    excitedTurnSpeedMult: number;
+    spawnRate: number;
+    enableSortieRegulation: boolean;
+    surgeDuration: number;        // 規則B: 発見個体の帰巣後、一斉出撃が続くティック数
+    sortieScoutChance: number;    // 規則B: 待機中に偵察として出撃する確率 (試行あたり)
+    sortiePheromoneGain: number;  // 規則B: 入り口の匂いの濃さに応じて出撃確率に加算する係数
+    foodCapacity: number;         // 餌場1つあたりの餌の量 (0 なら無限)
+    foodRegrowthRate: number;     // 餌場の1ティックあたりの回復量 (容量まで)
+    removeDepletedFood: boolean;  // 空になった餌場を取り除く (false なら空のまま残して回復を待つ)
+}
+
+// デフォルトパラメータ
+export const DEFAULT_PARAMS: Readonly<SimParams> = {
+    agentCount: 500,
+    moveSpeed: 1.5,
+    homeEvaporationRate: 0.985,
+    foodEvaporationRate: 0.985,
+    homeDiffusionRate: 0,
+    foodDiffusionRate: 0,
+    pheromoneCap: 1.0,
+    sensorAngle: Math.PI / 4,
+    sensorDist: 20,
+    turnSpeed: 0.2,
+    nestCount: 1,
+    foodCount: 2,
+    colonyCount: 1,
+    singlePheromoneMode: true,
+    uTurnChance: 0.01,
+    excitedSpeedMult: 2.0,
+    propagationChance: 0.1,
+    excitedDecayRate: 0.01,
+    usePheromoneGradient: true,
+    explorationResistance: 0.0,
+    excitedTurnSpeedMult: 3.0,
+    spawnRate: 5,
+    enableSortieRegulation: false,
+    surgeDuration: 600,
+    sortieScoutChance: 0.01,
+    sortiePheromoneGain: 1.0,
+    foodCapacity: 0,
+    foodRegrowthRate: 0,
+    removeDepletedFood: false
+};
+
+// 立入禁止フェロモンの表示色 (RGB)
+export const REPELLENT_COLOR: readonly [number, number, number] = [170, 255, 40];
+
+// コロニーの表示色 (RGB)。コロニー数の上限もこの長さで決まる
+export const COLONY_COLORS: readonly [number, number, number][] = [
+    [100, 100, 255],
+    [255, 90, 90],
+    [90, 220, 120],
+    [230, 200, 60]
+];
+
+// 実際に使うコロニー数 (params.colonyCount を 1 〜 COLONY_COLORS.length の整数に収める)
+export function colonyCountOf(params: SimParams): number {
+    return Math.max(1, Math.min(COLONY_COLORS.length, Math.floor(params.colonyCount)));
+}
+
+// 興奮が伝わる段数の上限 (AgentStore.cascadeDepth に収まる範囲)
+export const MAX_CASCADE_LEVELS = 16;
+
+// 接触判定・密度マップ用の空間分割サイズ (px)
+export const SPATIAL_CELL_SIZE = 10;
@@ -0,0 +1,205 @@
+import type { Simulation } from './simulation';
+import { createFoodSource, type FoodSource, type Nest, type Obstacle } from './world';
+
+// simCanvas 上で巣・餌場・障害物を配置するエディタ
+
+export type EditorTool = 'off' | 'move' | 'nest' | 'food' | 'wall' | 'erase';
+
+type Circle = Nest | FoodSource;
+
+type Drag =
+    | { kind: 'move'; target: Circle; dx: number; dy: number }
+    | { kind: 'resize'; target: Circle }
+    | { kind: 'wall'; x0: number; y0: number; x1: number; y1: number };
+
+const MIN_RADIUS = 5;
+const MAX_RADIUS = 150;
+const EDGE_GRAB = 4; // 円周からこの距離以内を掴むとサイズ変更
+
+export class WorldEditor {
+    tool: EditorTool = 'off';
+    nestColony = 0; // 新しく置く巣のコロニー
+    private drag: Drag | null = null;
+    private hover: Circle | Obstacle | null = null;
+
+    constructor(
+        private canvas: HTMLCanvasElement,
+        private sim: Simulation,
+        private onChange: () => void
+    ) {
+        canvas.addEventListener('mousedown', e => this.onMouseDown(e));
+        canvas.addEventListener('mousemove', e => this.onMouseMove(e));
+        window.addEventListener('mouseup', e => this.onMouseUp(e));
+        canvas.addEventListener('wheel', e => this.onWheel(e), { passive: false });
+    }
+
+    setTool(tool: EditorTool) {
+        this.tool = tool;
+        this.drag = null;
+        this.canvas.style.cursor = tool === 'off' ? '' : 'crosshair';
+    }
+
+    // キャンバスは CSS で縮小表示されることがあるので、表示座標をシミュレーション座標に直す
+    private toWorld(e: MouseEvent): { x: number; y: number } {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (this.canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (this.canvas.height / rect.height)
+        };
+    }
+
+    private circleAt(x: number, y: number, margin: number = 0): Circle | null {
+        // 後から描かれる (上に見える) ものを優先
+        for (const f of [...this.sim.foodSources].reverse()) {
+            if (Math.hypot(x - f.x, y - f.y) <= f.r + margin) return f;
+        }
+        for (const n of [...this.sim.nests].reverse()) {
+            if (Math.hypot(x - n.x, y - n.y) <= n.r + margin) return n;
+        }
+        return null;
+    }
+
+    private obstacleAt(x: number, y: number): Obstacle | null {
+        for (const obs of [...this.sim.obstacles].reverse()) {
+            if (x >= obs.x && x <= obs.x + obs.w && y >= obs.y && y <= obs.y + obs.h) return obs;
+        }
+        return null;
+    }
+
+    private onMouseDown(e: MouseEvent) {
+        if (this.tool === 'off' || e.button !== 0) return;
+        const { x, y } = this.toWorld(e);
+        e.preventDefault();
+
+        switch (this.tool) {
+            case 'move': {
+                const target = this.circleAt(x, y, EDGE_GRAB);
+                if (!target) return;
+                const d = Math.hypot(x - target.x, y - target.y);
+                this.drag = Math.abs(d - target.r) <= EDGE_GRAB
+                    ? { kind: 'resize', target }
+                    : { kind: 'move', target, dx: target.x - x, dy: target.y - y };
+                break;
+            }
+            case 'nest':
+                this.sim.nests.push({ x, y, r: 20, surgeTimer: 0, delivered: 0, colony: this.nestColony });
+                this.onChange();
+                break;
+            case 'food':
+                this.sim.foodSources.push(createFoodSource(x, y, 30, this.sim.params.foodCapacity));
+                this.onChange();
+                break;
+            case 'wall':
+                this.drag = { kind: 'wall', x0: x, y0: y, x1: x, y1: y };
+                break;
+            case 'erase':
+                this.eraseAt(x, y);
+                break;
+        }
+    }
+
+    private onMouseMove(e: MouseEvent) {
+        if (this.tool === 'off') return;
+        const { x, y } = this.toWorld(e);
+        this.hover = this.tool === 'erase'
+            ? (this.circleAt(x, y) ?? this.obstacleAt(x, y))
+            : this.tool === 'move' ? this.circleAt(x, y, EDGE_GRAB) : null;
+
+        const drag = this.drag;
+        if (!drag) return;
+        if (drag.kind === 'move') {
+            drag.target.x = x + drag.dx;
+            drag.target.y = y + drag.dy;
+        } else if (drag.kind === 'resize') {
+            drag.target.r = clampRadius(Math.hypot(x - drag.target.x, y - drag.target.y));
+        } else {
+            drag.x1 = x;
+            drag.y1 = y;
+        }
+    }
+
+    private onMouseUp(e: MouseEvent) {
+        const drag = this.drag;
+        if (!drag) return;
+        this.drag = null;
+
+        if (drag.kind === 'wall') {
+            const { x, y } = this.toWorld(e);
+            const rect = normalizeRect(drag.x0, drag.y0, x, y);
+            // クリックだけで極小の壁ができないようにする
+            if (rect.w < 2 || rect.h < 2) return;
+            this.sim.addObstacle(rect);
+        }
+        this.onChange();
+    }
+
+    private onWheel(e: WheelEvent) {
+        if (this.tool !== 'move') return;
+        const { x, y } = this.toWorld(e);
+        const target = this.circleAt(x, y);
+        if (!target) return;
+        e.preventDefault();
+        target.r = clampRadius(target.r * (e.deltaY < 0 ? 1.1 : 1 / 1.1));
+        this.onChange();
+    }
+
+    private eraseAt(x: number, y: number) {
+        const circle = this.circleAt(x, y);
+        if (circle) {
+            const foodIdx = this.sim.foodSources.indexOf(circle as FoodSource);
+            if (foodIdx >= 0) {
+                this.sim.foodSources.splice(foodIdx, 1);
+            } else {
+                // どのコロニーにも巣が最低1つ必要
+                const nest = circle as Nest;
+                if (this.sim.nests.some(n => n !== nest && n.colony === nest.colony)) {
+                    this.sim.nests.splice(this.sim.nests.indexOf(nest), 1);
+                }
+            }
+        } else {
+            const obs = this.obstacleAt(x, y);
+            if (!obs) return;
+            this.sim.obstacles.splice(this.sim.obstacles.indexOf(obs), 1);
+            this.sim.rebuildOccupancy();
+        }
+        this.hover = null;
+        this.onChange();
+    }
+
+    // 編集中のプレビューを simCanvas に重ねて描く
+    drawOverlay(ctx: CanvasRenderingContext2D) {
+        if (this.tool === 'off') return;
+
+        const drag = this.drag;
+        if (drag?.kind === 'wall') {
+            const rect = normalizeRect(drag.x0, drag.y0, drag.x1, drag.y1);
+            ctx.fillStyle = 'rgba(136, 136, 136, 0.5)';
+            ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+        }
+
+        const hover = this.hover;
+        if (!hover) return;
+        ctx.strokeStyle = this.tool === 'erase' ? 'rgba(255, 80, 80, 0.9)' : 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 1;
+        if ('r' in hover) {
+            ctx.beginPath();
+            ctx.arc(hover.x, hover.y, hover.r + 2, 0, Math.PI * 2);
+            ctx.stroke();
+        } else {
+            ctx.strokeRect(hover.x - 1, hover.y - 1, hover.w + 2, hover.h + 2);
+        }
+    }
+}
+
+function clampRadius(r: number): number {
+    return Math.min(MAX_RADIUS, Math.max(MIN_RADIUS, r));
+}
+
+function normalizeRect(x0: number, y0: number, x1: number, y1: number): Obstacle {
+    return {
+        x: Math.min(x0, x1),
+        y: Math.min(y0, y1),
+        w: Math.abs(x1 - x0),
+        h: Math.abs(y1 - y0)
+    };
+}
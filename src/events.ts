@@ -0,0 +1,128 @@
+import { WIDTH, HEIGHT, DEFAULT_PARAMS, type SimParams } from './config';
+import type { Simulation } from './simulation';
+import { isRuleKey, ruleValueType, setRuleValue } from './rule-pipeline';
+
+// 決まったティックに環境を変えるイベント (撹乱実験用)
+// フェロモンや個体はリセットしないので、できあがった道がどう組み替わるかを観察できる
+
+export type SimEvent =
+    | { tick: number; type: 'addObstacle'; x: number; y: number; w: number; h: number }
+    | { tick: number; type: 'removeObstacle'; x: number; y: number } // (x, y) を含む障害物を全て取り除く
+    | { tick: number; type: 'moveFood'; index: number; x: number; y: number }
+    | { tick: number; type: 'removeFood'; index: number }
+    | { tick: number; type: 'addNest'; x: number; y: number; r: number; colony: number }
+    // key は SimParams の項目か、行動ルールの "id.key" / "id.enabled"
+    | { tick: number; type: 'setParam'; key: EventParamKey; value: number | boolean };
+
+export type EventParamKey = keyof SimParams | `${string}.${string}`;
+
+export type SimEventType = SimEvent['type'];
+
+// 初期化のときにしか使われないので、途中で変えても意味がないパラメータ
+const INIT_ONLY_PARAMS: readonly (keyof SimParams)[] = ['agentCount', 'nestCount', 'foodCount', 'colonyCount'];
+
+// 種類ごとの数値項目 (検証用)
+const EVENT_FIELDS: Record<Exclude<SimEventType, 'setParam'>, string[]> = {
+    addObstacle: ['x', 'y', 'w', 'h'],
+    removeObstacle: ['x', 'y'],
+    moveFood: ['index', 'x', 'y'],
+    removeFood: ['index'],
+    addNest: ['x', 'y', 'r', 'colony']
+};
+
+// ティック tick の処理を始める直前に実行する
+export function applyEvent(sim: Simulation, event: SimEvent) {
+    switch (event.type) {
+        case 'addObstacle':
+            sim.addObstacle({ x: event.x, y: event.y, w: event.w, h: event.h });
+            break;
+        case 'removeObstacle':
+            sim.obstacles = sim.obstacles.filter(o =>
+                !(event.x >= o.x && event.x < o.x + o.w && event.y >= o.y && event.y < o.y + o.h));
+            sim.rebuildOccupancy();
+            break;
+        case 'moveFood': {
+            const food = sim.foodSources[event.index];
+            if (food) {
+                food.x = event.x;
+                food.y = event.y;
+            }
+            break;
+        }
+        case 'removeFood':
+            if (sim.foodSources[event.index]) sim.foodSources.splice(event.index, 1);
+            break;
+        case 'addNest':
+            sim.nests.push({
+                x: event.x, y: event.y, r: event.r, surgeTimer: 0, delivered: 0,
+                colony: Math.max(0, Math.min(Math.floor(event.colony), sim.colonyCount - 1))
+            });
+            break;
+        case 'setParam':
+            if (isRuleKey(event.key)) {
+                setRuleValue(sim.rules.settings, event.key, event.value);
+            } else {
+                // @ts-ignore
+                sim.params[event.key] = event.value;
+            }
+            break;
+    }
+}
+
+// 種類ごとの初期値 (UI で追加するときのひな形)
+export function eventTemplate(type: SimEventType, tick: number): SimEvent {
+    switch (type) {
+        case 'addObstacle': return { tick, type, x: WIDTH / 2 - 10, y: HEIGHT / 4, w: 20, h: HEIGHT / 2 };
+        case 'removeObstacle': return { tick, type, x: WIDTH / 2, y: HEIGHT / 2 };
+        case 'moveFood': return { tick, type, index: 0, x: WIDTH / 4, y: HEIGHT / 4 };
+        case 'removeFood': return { tick, type, index: 0 };
+        case 'addNest': return { tick, type, x: WIDTH / 4, y: HEIGHT * 3 / 4, r: 20, colony: 0 };
+        case 'setParam': return { tick, type, key: 'homeEvaporationRate', value: DEFAULT_PARAMS.homeEvaporationRate };
+    }
+}
+
+// 1件を検証する。不正な内容なら Error を投げる
+export function readEvent(value: unknown): SimEvent {
+    const data = value as Record<string, unknown> | null;
+    if (typeof data !== 'object' || data === null) throw new Error('Event must be an object');
+    const tick = data.tick;
+    if (typeof tick !== 'number' || !Number.isInteger(tick) || tick < 0) throw new Error('Event needs a tick');
+
+    if (data.type === 'setParam') {
+        if (typeof data.key === 'string' && isRuleKey(data.key)) {
+            const type = ruleValueType(data.key);
+            if (typeof data.value !== type || (type === 'number' && !isFinite(data.value as number))) {
+                throw new Error(`Invalid value for ${data.key}`);
+            }
+            return { tick, type: 'setParam', key: data.key as EventParamKey, value: data.value as number | boolean };
+        }
+        const key = data.key as keyof SimParams;
+        if (typeof key !== 'string' || !Object.hasOwn(DEFAULT_PARAMS, key)) throw new Error(`Unknown parameter: ${String(key)}`);
+        if (INIT_ONLY_PARAMS.includes(key)) throw new Error(`${key} cannot be changed during a run`);
+        if (typeof data.value !== typeof DEFAULT_PARAMS[key]) throw new Error(`Invalid value for ${key}`);
+        return { tick, type: 'setParam', key, value: data.value as number | boolean };
+    }
+
+    const type = data.type as Exclude<SimEventType, 'setParam'>;
+    const fields = typeof type === 'string' && Object.hasOwn(EVENT_FIELDS, type) ? EVENT_FIELDS[type] : null;
+    if (!fields) throw new Error(`Unknown event type: ${String(data.type)}`);
+    const event: Record<string, unknown> = { tick, type };
+    for (const f of fields) {
+        if (typeof data[f] !== 'number' || !isFinite(data[f] as number)) throw new Error(`${type} needs ${f}`);
+        event[f] = data[f];
+    }
+    return event as SimEvent;
+}
+
+// イベントファイル (配列、または { events: [...] }) を読む
+export function parseEvents(json: string): SimEvent[] {
+    const data = JSON.parse(json);
+    const list = Array.isArray(data) ? data : data?.events;
+    if (!Array.isArray(list)) throw new Error('Events must be an array');
+    return sortEvents(list.map(readEvent));
+}
+
+// ティック順 (sort は安定なので、同じティックなら書いた順)
+export function sortEvents(events: SimEvent[]): SimEvent[] {
+    return [...events].sort((a, b) => a.tick - b.tick);
+}
@@ -0,0 +1,76 @@
+import type { Heatmap } from './heatmap';
+
+// ヒートマップを densityCanvas に描く
+
+export type HeatmapScale = 'linear' | 'sqrt' | 'log';
+
+export interface HeatmapStyle {
+    scale: HeatmapScale;
+    maxValue: number | null; // 色が飽和する値 (null なら最大値に合わせる)
+    diverging: boolean;      // 差分表示: 正を赤、負を青、0 を黒
+}
+
+// 0..1 に正規化 (log は値の 1/1000 未満を切り捨てる)
+function normalize(v: number, max: number, scale: HeatmapScale): number {
+    const r = Math.min(1, v / max);
+    if (scale === 'sqrt') return Math.sqrt(r);
+    if (scale === 'log') return r <= 0.001 ? 0 : 1 + Math.log10(r) / 3;
+    return r;
+}
+
+// 描いたときの飽和値を返す (凡例用)
+export function drawHeatmap(ctx: CanvasRenderingContext2D, map: Heatmap, style: HeatmapStyle): number {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+
+    let max = style.maxValue ?? 0;
+    if (style.maxValue === null) {
+        for (const v of map.values) max = Math.max(max, Math.abs(v));
+    }
+    if (max <= 0) return 0;
+
+    for (let i = 0; i < map.values.length; i++) {
+        const v = map.values[i];
+        if (v === 0) continue;
+        const ratio = normalize(Math.abs(v), max, style.scale);
+        if (ratio <= 0) continue;
+        if (style.diverging) {
+            ctx.fillStyle = v > 0 ? `rgba(255, 80, 60, ${ratio})` : `rgba(60, 140, 255, ${ratio})`;
+        } else {
+            // 密度マップと同じ Blue -> Red
+            ctx.fillStyle = `hsla(${240 * (1 - ratio)}, 100%, 50%, ${0.3 + 0.7 * ratio})`;
+        }
+        const cx = i % map.cols;
+        const cy = Math.floor(i / map.cols);
+        ctx.fillRect(cx * map.cellSize, cy * map.cellSize, map.cellSize, map.cellSize);
+    }
+
+    drawLegend(ctx, max, style);
+    return max;
+}
+
+function drawLegend(ctx: CanvasRenderingContext2D, max: number, style: HeatmapStyle) {
+    const x = 10;
+    const y = ctx.canvas.height - 24;
+    const w = 120;
+    for (let i = 0; i < w; i++) {
+        const t = i / (w - 1);
+        if (style.diverging) {
+            const r = Math.abs(t * 2 - 1);
+            ctx.fillStyle = t >= 0.5 ? `rgba(255, 80, 60, ${r})` : `rgba(60, 140, 255, ${r})`;
+        } else {
+            ctx.fillStyle = `hsla(${240 * (1 - t)}, 100%, 50%, ${0.3 + 0.7 * t})`;
+        }
+        ctx.fillRect(x + i, y, 1, 8);
+    }
+    ctx.fillStyle = '#ccc';
+    ctx.font = '10px sans-serif';
+    const low = style.diverging ? `-${formatValue(max)}` : '0';
+    ctx.fillText(low, x, y + 20);
+    ctx.fillText(`${style.diverging ? '+' : ''}${formatValue(max)} 体 (${style.scale})`, x + w - 20, y + 20);
+}
+
+function formatValue(v: number): string {
+    return v >= 10 ? v.toFixed(0) : v.toPrecision(2);
+}
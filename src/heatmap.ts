@@ -0,0 +1,120 @@
+import { WIDTH, HEIGHT, isOnField } from './config';
+import type { AgentBuffers } from './snapshot';
+
+// 時間積分した占有ヒートマップ: 集計区間のティックごとに、セルにいる個体数を足し込む
+// 値は「そのセルに平均何体いたか」(個体数 × ティック / ティック数)。巣の中の個体は数えない
+
+export interface Heatmap {
+    cellSize: number;
+    cols: number;
+    rows: number;
+    startTick: number;
+    endTick: number;    // 最後に足し込んだティック
+    ticks: number;      // 足し込んだティック数
+    values: Float64Array; // セルごとの平均個体数
+}
+
+export class HeatmapAccumulator {
+    readonly cols: number;
+    readonly rows: number;
+    private sums: Float64Array;
+    ticks = 0;
+    startTick = -1;
+    endTick = -1;
+
+    // windowTicks: 集計するティック数 (0 なら止めるまで)
+    constructor(readonly cellSize: number, readonly windowTicks: number = 0) {
+        this.cols = Math.ceil(WIDTH / cellSize);
+        this.rows = Math.ceil(HEIGHT / cellSize);
+        this.sums = new Float64Array(this.cols * this.rows);
+    }
+
+    get done(): boolean {
+        return this.windowTicks > 0 && this.ticks >= this.windowTicks;
+    }
+
+    // weight: このフレームが代表するティック数 (Worker から間引いて届く場合)
+    accumulate(agents: AgentBuffers, tick: number, weight: number = 1) {
+        if (this.done || weight <= 0) return;
+        if (this.windowTicks > 0) weight = Math.min(weight, this.windowTicks - this.ticks);
+        for (let i = 0; i < agents.count; i++) {
+            if (!isOnField(agents.state[i])) continue;
+            const cx = Math.min(this.cols - 1, Math.floor(agents.x[i] / this.cellSize));
+            const cy = Math.min(this.rows - 1, Math.floor(agents.y[i] / this.cellSize));
+            this.sums[cy * this.cols + cx] += weight;
+        }
+        if (this.startTick < 0) this.startTick = tick;
+        this.endTick = tick;
+        this.ticks += weight;
+    }
+
+    result(): Heatmap {
+        const values = new Float64Array(this.sums.length);
+        if (this.ticks > 0) {
+            for (let i = 0; i < values.length; i++) values[i] = this.sums[i] / this.ticks;
+        }
+        return {
+            cellSize: this.cellSize, cols: this.cols, rows: this.rows,
+            startTick: this.startTick, endTick: this.endTick, ticks: this.ticks, values
+        };
+    }
+}
+
+// a − b (同じセルサイズのものだけ)
+export function diffHeatmaps(a: Heatmap, b: Heatmap): Heatmap {
+    if (a.cellSize !== b.cellSize) {
+        throw new Error(`Cell sizes differ: ${a.cellSize} vs ${b.cellSize}`);
+    }
+    const values = new Float64Array(a.values.length);
+    for (let i = 0; i < values.length; i++) values[i] = a.values[i] - b.values[i];
+    return { ...a, startTick: -1, endTick: -1, ticks: 0, values };
+}
+
+// 先頭に "# key=value" で集計条件を書いた縦長の CSV (セル1つで1行)
+export function heatmapToCSV(map: Heatmap, meta: Record<string, string | number | boolean> = {}): string {
+    const lines: string[] = [];
+    lines.push(`# cellSize=${map.cellSize}`);
+    lines.push(`# startTick=${map.startTick}`);
+    lines.push(`# endTick=${map.endTick}`);
+    lines.push(`# ticks=${map.ticks}`);
+    for (const [key, value] of Object.entries(meta)) lines.push(`# ${key}=${value}`);
+    lines.push('cell_x,cell_y,x,y,mean_agents');
+    for (let cy = 0; cy < map.rows; cy++) {
+        for (let cx = 0; cx < map.cols; cx++) {
+            const v = map.values[cy * map.cols + cx];
+            lines.push(`${cx},${cy},${cx * map.cellSize},${cy * map.cellSize},${v}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+// heatmapToCSV の逆。比較用に保存したヒートマップを読み戻す
+export function parseHeatmapCSV(text: string): Heatmap {
+    const meta = new Map<string, string>();
+    const cells: number[][] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (line.startsWith('#')) {
+            const m = line.match(/^#\s*(\w+)=(.*)$/);
+            if (m) meta.set(m[1], m[2]);
+        } else if (line.trim() !== '' && !line.startsWith('cell_x')) {
+            cells.push(line.split(',').map(Number));
+        }
+    }
+
+    const cellSize = Number(meta.get('cellSize'));
+    if (!(cellSize > 0)) throw new Error('Missing cellSize');
+    const cols = Math.ceil(WIDTH / cellSize);
+    const rows = Math.ceil(HEIGHT / cellSize);
+    const values = new Float64Array(cols * rows);
+    for (const [cx, cy, , , v] of cells) {
+        if (!(cx >= 0 && cx < cols && cy >= 0 && cy < rows) || isNaN(v)) throw new Error('Invalid heatmap row');
+        values[cy * cols + cx] = v;
+    }
+    return {
+        cellSize, cols, rows,
+        startTick: Number(meta.get('startTick') ?? -1),
+        endTick: Number(meta.get('endTick') ?? -1),
+        ticks: Number(meta.get('ticks') ?? 0),
+        values
+    };
+}
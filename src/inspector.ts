@@ -0,0 +1,125 @@
+import { AgentState, isOnField } from './config';
+import type { AgentDetails } from './snapshot';
+
+// simCanvas 上でクリックした1個体を観察する (状態表示・追従カメラ・最近の軌跡)
+
+const PATH_LENGTH = 300;   // 軌跡として残す点の数 (描画フレーム単位)
+export const FOLLOW_ZOOM = 3;
+
+const STATE_LABELS: Record<AgentState, string> = {
+    [AgentState.FORAGING]: '探索中',
+    [AgentState.RETURNING]: '帰巣中',
+    [AgentState.RETURNING_HOME]: '諦めて帰巣中',
+    [AgentState.IN_NEST]: '巣で待機',
+    [AgentState.DEAD]: '死亡'
+};
+
+export class AgentInspector {
+    selected: number | null = null; // sim.agents の添字
+    follow = false;
+    private path: { x: number; y: number }[] = [];
+
+    select(index: number | null) {
+        this.selected = index;
+        this.path = [];
+    }
+
+    // フレームごとに呼び、軌跡を伸ばす
+    record(details: AgentDetails | null) {
+        if (!details) return;
+        // 巣に入ると巣の中心へ移るので、そこで軌跡を切る (死んだときも)
+        if (!isOnField(details.state)) {
+            this.path = [];
+            return;
+        }
+        const last = this.path[this.path.length - 1];
+        if (last && last.x === details.x && last.y === details.y) return;
+        this.path.push({ x: details.x, y: details.y });
+        if (this.path.length > PATH_LENGTH) this.path.shift();
+    }
+
+    // 追従中なら、観察中の個体が画面中央に来るような変換
+    viewTransform(details: AgentDetails | null, width: number, height: number): DOMMatrix2DInit | null {
+        if (!this.follow || !details) return null;
+        return {
+            a: FOLLOW_ZOOM, b: 0, c: 0, d: FOLLOW_ZOOM,
+            e: width / 2 - details.x * FOLLOW_ZOOM,
+            f: height / 2 - details.y * FOLLOW_ZOOM
+        };
+    }
+
+    // 軌跡・向き・センサー位置を simCanvas に重ねて描く (ワールド座標)
+    drawOverlay(ctx: CanvasRenderingContext2D, details: AgentDetails | null, sensorAngle: number, sensorDist: number) {
+        if (!details) return;
+
+        if (this.path.length > 1) {
+            ctx.strokeStyle = 'rgba(0, 255, 200, 0.7)';
+            ctx.lineWidth = 1;
+            ctx.beginPath();
+            ctx.moveTo(this.path[0].x, this.path[0].y);
+            for (const p of this.path) ctx.lineTo(p.x, p.y);
+            ctx.stroke();
+        }
+
+        if (!isOnField(details.state)) return;
+
+        ctx.strokeStyle = 'rgba(0, 255, 200, 1)';
+        ctx.beginPath();
+        ctx.arc(details.x, details.y, 5, 0, Math.PI * 2);
+        ctx.stroke();
+
+        // 左・正面・右のセンサーの位置
+        details.sensors.forEach((value, i) => {
+            const ang = details.angle + (i - 1) * sensorAngle;
+            const sx = details.x + Math.cos(ang) * sensorDist;
+            const sy = details.y + Math.sin(ang) * sensorDist;
+            ctx.strokeStyle = value === -1 ? 'rgba(255, 80, 80, 0.6)' : 'rgba(0, 255, 200, 0.4)';
+            ctx.beginPath();
+            ctx.moveTo(details.x, details.y);
+            ctx.lineTo(sx, sy);
+            ctx.stroke();
+        });
+    }
+
+    renderPanel(el: HTMLElement, details: AgentDetails | null) {
+        if (this.selected === null) {
+            el.textContent = 'エディタがオフのとき、通常モードのキャンバスでアリをクリックすると選択できます';
+            return;
+        }
+        if (!details) {
+            el.textContent = '選択した個体はいません';
+            return;
+        }
+        const deg = ((details.angle * 180 / Math.PI) % 360 + 360) % 360;
+        const rows: [string, string][] = [
+            ['個体', `#${details.index} (コロニー${details.colony})`],
+            ['状態', STATE_LABELS[details.state]],
+            ['興奮レベル', String(details.excitedLevel)],
+            ['興奮の出どころ', formatCascade(details)],
+            ['探索時間 (tick)', String(details.searchTime)],
+            ['諦め中', details.givingUp ? 'はい' : 'いいえ'],
+            ['フェロモン強度', details.pheromoneStrength.toFixed(3)],
+            ['運搬中の餌', String(details.carrying)],
+            ['エネルギー', `${(details.energy * 100).toFixed(0)}%`],
+            ['向き', `${deg.toFixed(0)}°`],
+            ['位置', `(${details.x.toFixed(1)}, ${details.y.toFixed(1)})`],
+            ['センサー 左/正面/右', details.sensors.map(formatSensor).join(' / ')]
+        ];
+        el.innerHTML = rows.map(([label, value]) =>
+            `<div style="display: flex; justify-content: space-between;"><span>${label}:</span> <span>${value}</span></div>`
+        ).join('');
+    }
+}
+
+// 発見個体なら「発見 (カスケード番号)」、伝播なら「#興奮させた個体から n 段目」
+function formatCascade(details: AgentDetails): string {
+    if (details.excitedLevel === 0) return '-';
+    const id = details.cascadeId >= 0 ? ` (カスケード${details.cascadeId})` : '';
+    if (details.excitedLevel === 2) return `発見${id}`;
+    return `#${details.excitedBy} から ${details.cascadeDepth} 段目${id}`;
+}
+
+// -1 は画面外か壁の向こう (立入禁止を避けている間は -1 より大きい負の値になる)
+function formatSensor(v: number): string {
+    return v === -1 ? '壁' : v.toFixed(3);
+}
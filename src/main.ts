@@ -1,531 +1,29 @@
-// --- 設定と定数 ---
-const WIDTH = 600;
-const HEIGHT = 600;
-
-// フェロモンの種類
-enum PheromoneType {
-    HOME = 0, // 巣に戻るための匂い（青）
-    FOOD = 1  // 餌場に行くための匂い（赤）
-}
-
-// エージェントの状態
-enum AgentState {
-    FORAGING = 0, // 餌を探している（巣の匂いを落とす）
-    RETURNING = 1 // 巣に帰っている（餌の匂いを落とす）
-}
-
-interface SimParams {
-    agentCount: number;
-    moveSpeed: number;
-    evaporationRate: number;
-    sensorAngle: number; // ラジアン
-    sensorDist: number;
-    turnSpeed: number;   // ラジアン
-    nestCount: number;
-    foodCount: number;
-    singlePheromoneMode: boolean;
-    uTurnChance: number;
-    excitedSpeedMult: number;
-    propagationChance: number;
-    excitedDecayRate: number;
-    usePheromoneGradient: boolean;
-    explorationResistance: number;
-    excitedTurnSpeedMult: number;
-    spawnRate: number;
-    enableSortieRegulation: boolean;
-    enableGiveUp: boolean;
-}
-
-// デフォルトパラメータ
-const params: SimParams = {
-    agentCount: 500,
-    moveSpeed: 1.5,
-    evaporationRate: 0.985,
-    sensorAngle: Math.PI / 4,
-    sensorDist: 20,
-    turnSpeed: 0.2,
-    nestCount: 1,
-    foodCount: 2,
-    singlePheromoneMode: true,
-    uTurnChance: 0.01,
-    excitedSpeedMult: 2.0,
-    propagationChance: 0.1,
-    excitedDecayRate: 0.01,
-    usePheromoneGradient: true,
-    explorationResistance: 0.0,
-    excitedTurnSpeedMult: 3.0,
-    spawnRate: 5,
-    enableSortieRegulation: false,
-    enableGiveUp: false
-};
-
-// 巣の情報
-interface Nest {
-    x: number;
-    y: number;
-    r: number;
-    surgeTimer: number;
-}
-let nests: Nest[] = [];
-
-interface FoodSource {
-    x: number;
-    y: number;
-    r: number;
-    surgeTimer: number;
-}
-let foodSources: FoodSource[] = [];
-
-function initFoods() {
-    foodSources = [];
-    // ランダム配置
-    for (let i = 0; i < params.foodCount; i++) {
-        let f: FoodSource;
-        let attempts = 0;
-        do {
-            f = {
-                x: Math.random() * (WIDTH - 100) + 50,
-                y: Math.random() * (HEIGHT - 100) + 50,
-                r: 30,
-                surgeTimer: 0
-            };
-            attempts++;
-        } while (isOverlapping(f.x, f.y, f.r) && attempts < 100);
-        foodSources.push(f);
-    }
-}
-
-function initNests() {
-    nests = [];
-    for (let i = 0; i < params.nestCount; i++) {
-        let n: Nest;
-        let attempts = 0;
-        do {
-            if (i === 0 && attempts === 0) {
-                n = { x: WIDTH / 2, y: HEIGHT / 2, r: 20, surgeTimer: 0 };
-            } else {
-                n = {
-                    x: Math.random() * (WIDTH - 100) + 50,
-                    y: Math.random() * (HEIGHT - 100) + 50,
-                    r: 20,
-                    surgeTimer: 0
-                };
-            }
-            attempts++;
-        } while (isOverlapping(n.x, n.y, n.r) && attempts < 100);
-        nests.push(n);
-    }
-}
-
-interface Obstacle {
-    x: number;
-    y: number;
-    w: number;
-    h: number;
-}
-let obstacles: Obstacle[] = [];
-
-function isOverlapping(x: number, y: number, r: number): boolean {
-    for (const obs of obstacles) {
-        if (x + r > obs.x && x - r < obs.x + obs.w &&
-            y + r > obs.y && y - r < obs.y + obs.h) {
-            return true;
-        }
-    }
-    return false;
-}
-
-function initMaze() {
-    obstacles = [];
-    const cellSize = 60; // 少し広めに
-    const cols = Math.floor(WIDTH / cellSize);
-    const rows = Math.floor(HEIGHT / cellSize);
-
-    // 外周
-    obstacles.push({ x: 0, y: 0, w: WIDTH, h: 10 });
-    obstacles.push({ x: 0, y: HEIGHT - 10, w: WIDTH, h: 10 });
-    obstacles.push({ x: 0, y: 0, w: 10, h: HEIGHT });
-    obstacles.push({ x: WIDTH - 10, y: 0, w: 10, h: HEIGHT });
-
-    // 簡易的な壁生成
-    for (let y = 2; y < rows - 1; y += 2) {
-        for (let x = 2; x < cols - 1; x += 2) {
-            const px = x * cellSize;
-            const py = y * cellSize;
-            obstacles.push({ x: px, y: py, w: 10, h: 10 }); // 柱
-
-            // ランダムに壁を伸ばす
-            const dir = Math.floor(Math.random() * 4);
-            switch (dir) {
-                case 0: obstacles.push({ x: px, y: py - cellSize, w: 10, h: cellSize }); break; // 上
-                case 1: obstacles.push({ x: px, y: py, w: 10, h: cellSize }); break; // 下
-                case 2: obstacles.push({ x: px - cellSize, y: py, w: cellSize, h: 10 }); break; // 左
-                case 3: obstacles.push({ x: px, y: py, w: cellSize, h: 10 }); break; // 右
-            }
-        }
-    }
-}
-
-// --- クラス定義 ---
-
-class PheromoneGrid {
-    width: number;
-    height: number;
-    // 1次元配列で管理 (0.0 ~ 1.0)
-    homeGrid: Float32Array;
-    foodGrid: Float32Array;
-
-    constructor(w: number, h: number) {
-        this.width = w;
-        this.height = h;
-        this.homeGrid = new Float32Array(w * h);
-        this.foodGrid = new Float32Array(w * h);
-    }
-
-    // フェロモンを落とす
-    deposit(x: number, y: number, type: PheromoneType, amount: number) {
-        const idx = (Math.floor(y) * this.width) + Math.floor(x);
-        if (idx >= 0 && idx < this.homeGrid.length) {
-            // 検証モード: 全て HOME として扱う
-            const effectiveType = params.singlePheromoneMode ? PheromoneType.HOME : type;
-
-            if (effectiveType === PheromoneType.HOME) {
-                // 最大1.0でキャップ
-                this.homeGrid[idx] = Math.min(1.0, this.homeGrid[idx] + amount);
-            } else {
-                this.foodGrid[idx] = Math.min(1.0, this.foodGrid[idx] + amount);
-            }
-        }
-    }
-
-    // 指定位置のフェロモン濃度を取得
-    getLevel(x: number, y: number, type: PheromoneType): number {
-        // 境界チェック
-        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
-        const idx = (Math.floor(y) * this.width) + Math.floor(x);
-
-        // 検証モード: 常に HOME から取得
-        const effectiveType = params.singlePheromoneMode ? PheromoneType.HOME : type;
-        
-        return effectiveType === PheromoneType.HOME ? this.homeGrid[idx] : this.foodGrid[idx];
-    }
-
-    // 全体の蒸発処理
-    evaporate(rate: number) {
-        for (let i = 0; i < this.homeGrid.length; i++) {
-            this.homeGrid[i] *= rate;
-            this.foodGrid[i] *= rate;
-            
-            // 完全に消えたら0にする（浮動小数点誤差対策）
-            if (this.homeGrid[i] < 0.001) this.homeGrid[i] = 0;
-            if (this.foodGrid[i] < 0.001) this.foodGrid[i] = 0;
-        }
-    }
-    
-    reset() {
-        this.homeGrid.fill(0);
-        this.foodGrid.fill(0);
-    }
-}
-
-class Agent {
-    x: number;
-    y: number;
-    angle: number; // ラジアン
-    state: AgentState;
-    
-    // 「巣からの距離感」または「餌からの距離感」を表現するためのタイマー
-    // これにより、濃いフェロモン（最近通った場所）を作れる
-    pheromoneStrength: number;
-    excitedLevel: number; // 0:通常, 1:伝播, 2:発信源
-    searchTime: number;
-    givingUp: boolean;
-
-    constructor(x: number, y: number) {
-        this.x = x;
-        this.y = y;
-        this.angle = Math.random() * Math.PI * 2;
-        this.state = AgentState.FORAGING;
-        this.pheromoneStrength = 1.0;
-        this.excitedLevel = 0;
-        this.searchTime = 0;
-        this.givingUp = false;
-    }
-
-    update(grid: PheromoneGrid, nearbyAgents: Agent[]) {
-        // 興奮の減衰 (レベル1, 2ともに)
-        if (this.excitedLevel > 0 && params.excitedDecayRate > 0) {
-            if (Math.random() < params.excitedDecayRate) {
-                this.excitedLevel = 0;
-            }
-        }
-
-        // 接触による興奮伝播 (1次感染者からのみ)
-        if (params.propagationChance > 0 && this.excitedLevel === 0) {
-            for (const other of nearbyAgents) {
-                if (other !== this && other.excitedLevel === 2) {
-                     if (Math.random() < params.propagationChance) {
-                        this.excitedLevel = 1;
-                        break;
-                     }
-                }
-            }
-        }
-
-        // 1. センサーによる方向転換
-        this.sense(grid);
-
-        // 諦め(Give-up)判定
-        if (params.enableGiveUp && this.state === AgentState.FORAGING && this.excitedLevel === 0) {
-             const currentHome = grid.getLevel(this.x, this.y, PheromoneType.HOME);
-             const currentFood = grid.getLevel(this.x, this.y, PheromoneType.FOOD);
-             
-             // 道に乗っているか判定
-             if (currentHome > 0.05 || currentFood > 0.05) {
-                 this.searchTime = 0;
-                 this.givingUp = false;
-             } else {
-                 this.searchTime++;
-                 // 約15秒で諦める
-                 if (this.searchTime > 900) {
-                     this.givingUp = true;
-                 }
-             }
-        }
-
-        // 2. ランダムなゆらぎ
-        const wiggle = (this.excitedLevel > 0) ? 0.05 : 0.2;
-        this.angle += (Math.random() - 0.5) * wiggle;
-
-        // 3. 移動
-        let speed = params.moveSpeed * (this.excitedLevel > 0 ? params.excitedSpeedMult : 1.0);
-
-        // 探索抵抗 (フェロモンがない場所への進みにくさ)
-        if (params.explorationResistance > 0) {
-            const currentPheromone = Math.max(
-                grid.getLevel(this.x, this.y, PheromoneType.HOME),
-                grid.getLevel(this.x, this.y, PheromoneType.FOOD)
-            );
-            const factor = 1.0 - (params.explorationResistance * (1.0 - currentPheromone));
-            speed *= Math.max(0, factor);
-        }
-
-        const prevX = this.x;
-        const prevY = this.y;
-        this.x += Math.cos(this.angle) * speed;
-        this.y += Math.sin(this.angle) * speed;
-        
-        // 障害物判定
-        this.handleObstacles(prevX, prevY);
-
-        // 4. 壁でのバウンス処理
-        this.handleBoundaries(grid);
-
-        // 5. フェロモン塗布 & 状態更新
-        this.handleStateAndPheromones(grid);
-    }
-
-    handleObstacles(prevX: number, prevY: number) {
-        for (const obs of obstacles) {
-            if (this.x >= obs.x && this.x <= obs.x + obs.w &&
-                this.y >= obs.y && this.y <= obs.y + obs.h) {
-                this.x = prevX;
-                this.y = prevY;
-                this.angle += Math.PI + (Math.random() - 0.5);
-                return;
-            }
-        }
-    }
-
-    sense(grid: PheromoneGrid) {
-        if (this.givingUp) {
-            this.senseAnyPheromone(grid);
-            return;
-        }
-
-        // 探索中のターゲットフェロモン（餌を探すならFOOD、巣に帰るならHOME）
-        const targetType = this.state === AgentState.FORAGING ? PheromoneType.FOOD : PheromoneType.HOME;
-        
-        const sensorLeftAngle = this.angle - params.sensorAngle;
-        const sensorRightAngle = this.angle + params.sensorAngle;
-
-        const getSensorPos = (ang: number) => ({
-            x: this.x + Math.cos(ang) * params.sensorDist,
-            y: this.y + Math.sin(ang) * params.sensorDist
-        });
-
-        const l = getSensorPos(sensorLeftAngle);
-        const c = getSensorPos(this.angle);
-        const r = getSensorPos(sensorRightAngle);
-
-        const vLeft = grid.getLevel(l.x, l.y, targetType);
-        const vCenter = grid.getLevel(c.x, c.y, targetType);
-        const vRight = grid.getLevel(r.x, r.y, targetType);
-
-        // 濃度が高い方へ回転
-        let turn = params.turnSpeed;
-        if (this.excitedLevel > 0) {
-            turn *= params.excitedTurnSpeedMult;
-        }
-
-        if (vCenter > vLeft && vCenter > vRight) {
-            // そのまま進む
-        } else if (vCenter < vLeft && vCenter < vRight) {
-            // 左右どちらも強い -> ランダムに大きく旋回
-            this.angle += (Math.random() - 0.5) * 2 * turn;
-        } else if (vLeft > vRight) {
-            this.angle -= turn;
-        } else if (vRight > vLeft) {
-            this.angle += turn;
-        }
-
-        // Uターン処理
-        if (params.uTurnChance > 0) {
-            let doUTurn = Math.random() < params.uTurnChance;
-            // 進行方向のフェロモン濃度が薄い場合、Uターンしやすくする
-            // 閾値は 0.05 程度とする (最大1.0)
-            const forwardPheromone = vCenter + Math.max(vLeft, vRight);
-            if (forwardPheromone < 0.05) {
-                 // 濃度が薄い場合、確率をブースト (例: 10倍)
-                 if (Math.random() < params.uTurnChance * 10) {
-                     doUTurn = true;
-                 }
-            }
-            
-            if (doUTurn) {
-                this.angle += Math.PI;
-            }
-        }
-    }
-
-    senseAnyPheromone(grid: PheromoneGrid) {
-        const sensorLeftAngle = this.angle - params.sensorAngle;
-        const sensorRightAngle = this.angle + params.sensorAngle;
-
-        const getSensorPos = (ang: number) => ({
-            x: this.x + Math.cos(ang) * params.sensorDist,
-            y: this.y + Math.sin(ang) * params.sensorDist
-        });
-
-        const l = getSensorPos(sensorLeftAngle);
-        const c = getSensorPos(this.angle);
-        const r = getSensorPos(sensorRightAngle);
-
-        // HOMEとFOODの合算値を感知
-        const getSum = (x: number, y: number) => 
-            grid.getLevel(x, y, PheromoneType.HOME) + grid.getLevel(x, y, PheromoneType.FOOD);
-
-        const vLeft = getSum(l.x, l.y);
-        const vCenter = getSum(c.x, c.y);
-        const vRight = getSum(r.x, r.y);
-
-        // 通常より敏感に回転
-        const turn = params.turnSpeed * 2.0;
-
-        if (vCenter > vLeft && vCenter > vRight) {
-            // そのまま
-        } else if (vCenter < vLeft && vCenter < vRight) {
-             this.angle += (Math.random() - 0.5) * 2 * turn;
-        } else if (vLeft > vRight) {
-            this.angle -= turn;
-        } else if (vRight > vLeft) {
-            this.angle += turn;
-        }
-
-        // 何も感じない場合はランダムウォークを強める
-        if (vCenter + vLeft + vRight < 0.01) {
-             if (Math.random() < 0.05) { 
-                 this.angle += (Math.random() - 0.5) * Math.PI;
-             }
-        }
-    }
-
-    handleBoundaries(grid: PheromoneGrid) {
-        if (this.x < 0) { this.x = 0; this.angle = Math.PI - this.angle; }
-        if (this.x >= grid.width) { this.x = grid.width - 1; this.angle = Math.PI - this.angle; }
-        if (this.y < 0) { this.y = 0; this.angle = -this.angle; }
-        if (this.y >= grid.height) { this.y = grid.height - 1; this.angle = -this.angle; }
-    }
-
-    handleStateAndPheromones(grid: PheromoneGrid) {
-        // 最も近い巣を探す
-        let closestNest = nests[0];
-        let minDist = Infinity;
-        
-        for (const nest of nests) {
-            const d = Math.hypot(this.x - nest.x, this.y - nest.y);
-            if (d < minDist) {
-                minDist = d;
-                closestNest = nest;
-            }
-        }
-        const distToNest = minDist;
-        const nestRadius = closestNest.r;
-
-        // 餌にいるか判定
-        let onFood = false;
-        for (const f of foodSources) {
-            if (Math.hypot(this.x - f.x, this.y - f.y) < f.r) {
-                onFood = true;
-                break;
-            }
-        }
-
-        // 状態遷移とフェロモン補充
-        if (this.state === AgentState.FORAGING) {
-            // 餌を探している -> 通った道に「巣のフェロモン(HOME)」を落とす
-            // 巣に近いほど濃いフェロモンを落としたいので、時間経過で強度を減衰させる
-            grid.deposit(this.x, this.y, PheromoneType.HOME, this.pheromoneStrength);
-            
-            if (onFood) {
-                // 餌を見つけた！
-                this.state = AgentState.RETURNING;
-                this.pheromoneStrength = 1.0; // 餌フェロモン強度MAX
-                this.angle += Math.PI; // 反転
-                this.excitedLevel = 2;
-            } else {
-                // 歩くたびにフェロモン強度が下がる（巣から遠ざかるほど薄くなる＝勾配ができる）
-                if (params.usePheromoneGradient) {
-                    this.pheromoneStrength = Math.max(0, this.pheromoneStrength - 0.005);
-                } else {
-                    this.pheromoneStrength = 1.0;
-                }
-            }
-
-            // 巣にいるなら強度リチャージ
-            if (distToNest < nestRadius) {
-                this.pheromoneStrength = 1.0;
-            }
-
-        } else {
-            // 巣に帰っている -> 通った道に「餌のフェロモン(FOOD)」を落とす
-            grid.deposit(this.x, this.y, PheromoneType.FOOD, this.pheromoneStrength);
-
-            if (distToNest < nestRadius) {
-                // 巣に着いた！
-                if (this.state === AgentState.RETURNING && this.excitedLevel === 2) {
-                    closestNest.surgeTimer = 600;
-                }
-                this.state = AgentState.FORAGING;
-                this.pheromoneStrength = 1.0; // 巣フェロモン強度MAX
-                this.angle += Math.PI; // 反転
-                this.excitedLevel = 0;
-            } else {
-                // 歩くたびに強度が下がる（餌場から遠ざかるほど薄くなる）
-                if (params.usePheromoneGradient) {
-                    this.pheromoneStrength = Math.max(0, this.pheromoneStrength - 0.005);
-                } else {
-                    this.pheromoneStrength = 1.0;
-                }
-            }
-            
-            // 餌場にいるなら強度リチャージ（餌場内をうろついている間）
-            if (onFood) {
-                this.pheromoneStrength = 1.0;
-            }
-        }
-    }
-}
+import { WIDTH, HEIGHT, SPATIAL_CELL_SIZE, COLONY_COLORS, REPELLENT_COLOR, AgentState, isOnField, type SimParams } from './config';
+import { Simulation } from './simulation';
+import { randomSeed } from './rng';
+import { TimeSeriesRecorder } from './timeseries';
+import { drawTimeSeriesChart } from './chart';
+import { downloadBlob, downloadText } from './download';
+import { WorldEditor, type EditorTool } from './editor';
+import { isDepleted } from './world';
+import type { Agent } from './agent';
+import { captureFrame, findAgentAt, type FrameSnapshot } from './snapshot';
+import { SimWorkerClient } from './worker-client';
+import { PlaybackClock } from './playback';
+import { AgentInspector } from './inspector';
+import { RunRecording, parseRecording } from './recording';
+import { HeatmapAccumulator, diffHeatmaps, heatmapToCSV, parseHeatmapCSV, type Heatmap } from './heatmap';
+import { drawHeatmap, type HeatmapScale } from './heatmap-view';
+import { eventTemplate, parseEvents, type SimEvent, type SimEventType } from './events';
+import { PresetTracker, SCENARIO_PRESETS, findPreset, presetScenario } from './presets';
+import {
+    defaultRuleSettings, getRule, isRuleKey, ruleSettingEntries, setRuleValue, type RuleParam, type RuleSetting
+} from './rule-pipeline';
+import { parseBestParams } from './optimize';
+import {
+    applyScenario, captureScenario, decodeScenarioFromUrl, encodeScenarioForUrl, parseScenario,
+    type Scenario
+} from './scenario';
 
 // --- メイン処理 ---
 
@@ -534,23 +32,82 @@ const ctx = canvas.getContext('2d', { alpha: false })!;
 const densityCanvas = document.getElementById('densityCanvas') as HTMLCanvasElement;
 const densityCtx = densityCanvas.getContext('2d', { alpha: false })!;
 // alpha: falseでパフォーマンス向上
+const chartCanvas = document.getElementById('chartCanvas') as HTMLCanvasElement;
+const chartCtx = chartCanvas.getContext('2d', { alpha: false })!;
+const CHART_WINDOW_TICKS = 3000;
+const BENCHMARK_TICKS = 300;
+const frameImage = ctx.createImageData(WIDTH, HEIGHT);
+// 追従カメラで拡大するときの下書き用
+const pixelCanvas = document.createElement('canvas');
+pixelCanvas.width = WIDTH;
+pixelCanvas.height = HEIGHT;
+const pixelCtx = pixelCanvas.getContext('2d')!;
 
 // 統計UI要素
+const statTickEl = document.getElementById('stat-tick');
 const statTotalEl = document.getElementById('stat-total');
 const statForagingEl = document.getElementById('stat-foraging');
 const statReturningEl = document.getElementById('stat-returning');
+const statReturningHomeEl = document.getElementById('stat-returningHome');
+const statGiveUpsEl = document.getElementById('stat-giveUps');
+const statInNestEl = document.getElementById('stat-inNest');
+const statDeliveredEl = document.getElementById('stat-delivered');
+const statFoodRemainingEl = document.getElementById('stat-foodRemaining');
+const statStoredEl = document.getElementById('stat-stored');
+const statDeathsBirthsEl = document.getElementById('stat-deathsBirths');
 const statExcited2El = document.getElementById('stat-excited2');
 const statExcited1El = document.getElementById('stat-excited1');
+const statCascadesEl = document.getElementById('stat-cascades');
+const statCascadeMaxEl = document.getElementById('stat-cascadeMax');
+const statOnTrailEl = document.getElementById('stat-onTrail');
+const statOffTrailEl = document.getElementById('stat-offTrail');
+const statGiniEl = document.getElementById('stat-gini');
+const statEntropyEl = document.getElementById('stat-entropy');
+const statFirstDiscoveryEl = document.getElementById('stat-firstDiscovery');
+const statWithdrawalEl = document.getElementById('stat-withdrawal');
+const colonyStatsEl = document.getElementById('colonyStats');
+const inspectorEl = document.getElementById('inspector');
+const eventsValEl = document.getElementById('val-events');
+const presetMeasureEl = document.getElementById('val-presetMeasure');
+
+const seedInput = document.getElementById('seed') as HTMLInputElement;
+const seedValEl = document.getElementById('val-seed');
+
+// シード欄の値を返す。空欄や不正な値なら新しいシードを引く
+function readSeed(): number {
+    const val = parseInt(seedInput.value);
+    return isNaN(val) ? randomSeed() : val >>> 0;
+}
 
-const grid = new PheromoneGrid(WIDTH, HEIGHT);
-let agents: Agent[] = [];
-let spawnAccumulator = 0;
-
-// エージェント初期化
-function initAgents() {
-    agents = [];
-    spawnAccumulator = 0;
-    // 一気に追加せず、loop内で徐々に追加する
+const sim = new Simulation({}, readSeed());
+const params = sim.params;
+const recorder = new TimeSeriesRecorder();
+const playback = new PlaybackClock();
+const inspector = new AgentInspector();
+let inspectedAgents: Agent[] | null = null; // 選択したときの sim.agents (作り直されたら選択を外す)
+let lastFrame: FrameSnapshot | null = null;
+let currentView: DOMMatrix2DInit | null = null; // 追従カメラの変換 (なければ等倍)
+let recording: RunRecording | null = null; // 記録中、または記録済み・読み込み済みの実行
+let replaying = false;
+let replayIndex = 0; // recording.ticks の添字
+let heatmap: HeatmapAccumulator | null = null; // 占有ヒートマップの集計
+let heatmapActive = false;
+const heatmapSlots: Record<'A' | 'B', Heatmap | null> = { A: null, B: null }; // 差分表示用に保持したもの
+let presetTracker: PresetTracker | null = null; // 実験配置の計測 (配置を変えたら外す)
+const PRESET_MEAN_TICKS = 1000;
+
+// 配置を編集したら、巣と餌場の数をスライダーに反映する
+const editor = new WorldEditor(canvas, sim, () => {
+    sim.saveFoodLayout();
+    params.nestCount = sim.nests.length;
+    params.foodCount = sim.foodSources.length;
+    syncUI();
+});
+
+// params から UI へ値を書き戻す関数 (シナリオ読み込み時などに使う)
+const uiSyncers: (() => void)[] = [];
+function syncUI() {
+    for (const sync of uiSyncers) sync();
 }
 
 // UIイベントリスナー設定
@@ -558,6 +115,10 @@ function setupUI() {
     const bind = (id: string, key: keyof SimParams, isFloat: boolean = false) => {
         const el = document.getElementById(id) as HTMLInputElement;
         const valEl = document.getElementById(`val-${id}`) as HTMLElement;
+        uiSyncers.push(() => {
+            el.value = String(params[key]);
+            valEl.textContent = String(params[key]);
+        });
         el.addEventListener('input', () => {
             const val = isFloat ? parseFloat(el.value) : parseInt(el.value);
             // @ts-ignore
@@ -566,8 +127,8 @@ function setupUI() {
 
             if (key === 'agentCount') {
                 // 数が変わったら再生成（または増減処理だが、簡単のためリセット）
-                initAgents();
-                grid.reset();
+                sim.initAgents();
+                sim.resetPheromones();
             }
         });
     };
@@ -575,11 +136,19 @@ function setupUI() {
     bind('agentCount', 'agentCount');
     bind('spawnRate', 'spawnRate', true);
     bind('moveSpeed', 'moveSpeed', true);
-    bind('evapRate', 'evaporationRate', true);
-    bind('sensorAngle', 'sensorAngle', false); // 度数法で受けて内部で変換が必要だが簡易化
+    bind('homeEvapRate', 'homeEvaporationRate', true);
+    bind('foodEvapRate', 'foodEvaporationRate', true);
+    bind('homeDiffusionRate', 'homeDiffusionRate', true);
+    bind('foodDiffusionRate', 'foodDiffusionRate', true);
+    bind('pheromoneCap', 'pheromoneCap', true);
     // sensorAngleはスライダーが度数法、paramsはラジアンにするため特殊処理
     const angleEl = document.getElementById('sensorAngle') as HTMLInputElement;
     const angleVal = document.getElementById('val-sensorAngle') as HTMLElement;
+    uiSyncers.push(() => {
+        const deg = Math.round(params.sensorAngle * (180 / Math.PI));
+        angleEl.value = String(deg);
+        angleVal.textContent = String(deg);
+    });
     angleEl.addEventListener('input', () => {
         const deg = parseFloat(angleEl.value);
         params.sensorAngle = deg * (Math.PI / 180);
@@ -593,169 +162,761 @@ function setupUI() {
     bind('excitedDecayRate', 'excitedDecayRate', true);
     bind('explorationResistance', 'explorationResistance', true);
     bind('excitedTurnSpeedMult', 'excitedTurnSpeedMult', true);
+    bind('surgeDuration', 'surgeDuration');
+    bind('sortieScoutChance', 'sortieScoutChance', true);
+    bind('sortiePheromoneGain', 'sortiePheromoneGain', true);
+    bind('foodCapacity', 'foodCapacity');
+    const foodCapacityEl = document.getElementById('foodCapacity') as HTMLInputElement;
+    foodCapacityEl?.addEventListener('input', () => {
+        // 既存の餌場も新しい容量で満たし直す (Worker 実行中はそちらの餌場も)
+        sim.setFoodCapacity(params.foodCapacity);
+        simWorker?.setFoodCapacity(params.foodCapacity);
+    });
+    bind('foodRegrowthRate', 'foodRegrowthRate', true);
 
     bind('nestCount', 'nestCount', false);
     const nestCountEl = document.getElementById('nestCount') as HTMLInputElement;
     nestCountEl?.addEventListener('input', () => {
         // 巣の数が変わったら再配置
-        initNests();
-        initAgents();
-        grid.reset();
+        sim.initNests();
+        sim.initAgents();
+        sim.resetPheromones();
+    });
+
+    bind('colonyCount', 'colonyCount', false);
+    const colonyCountEl = document.getElementById('colonyCount') as HTMLInputElement;
+    colonyCountEl?.addEventListener('input', () => {
+        // コロニー数が変わったら巣を割り当て直し、フェロモン層も作り直す
+        sim.initNests();
+        sim.initGrids();
+        sim.initAgents();
+        syncEditorColonies();
     });
 
     bind('foodCount', 'foodCount', false);
     const foodCountEl = document.getElementById('foodCount') as HTMLInputElement;
     foodCountEl?.addEventListener('input', () => {
-        initFoods();
+        sim.initFoods();
         // 餌の位置が変わったらエージェントの挙動も変わるが、リセットまではしなくて良いかもしれない
         // しかしわかりやすさのためリセット推奨
-        grid.reset();
-        initAgents();
+        sim.resetPheromones();
+        sim.initAgents();
     });
 
     const singleModeCb = document.getElementById('singlePheromoneMode') as HTMLInputElement;
     if (singleModeCb) {
+        uiSyncers.push(() => { singleModeCb.checked = params.singlePheromoneMode; });
         singleModeCb.addEventListener('change', () => {
             params.singlePheromoneMode = singleModeCb.checked;
-            grid.reset();
-            initAgents();
+            sim.resetPheromones();
+            sim.initAgents();
         });
     }
 
     const gradCb = document.getElementById('usePheromoneGradient') as HTMLInputElement;
     if (gradCb) {
+        uiSyncers.push(() => { gradCb.checked = params.usePheromoneGradient; });
         gradCb.addEventListener('change', () => {
             params.usePheromoneGradient = gradCb.checked;
-            grid.reset();
-            initAgents();
+            sim.resetPheromones();
+            sim.initAgents();
+        });
+    }
+
+    const removeDepletedCb = document.getElementById('removeDepletedFood') as HTMLInputElement;
+    if (removeDepletedCb) {
+        uiSyncers.push(() => { removeDepletedCb.checked = params.removeDepletedFood; });
+        removeDepletedCb.addEventListener('change', () => {
+            params.removeDepletedFood = removeDepletedCb.checked;
         });
     }
 
     const sortieCb = document.getElementById('enableSortieRegulation') as HTMLInputElement;
     if (sortieCb) {
+        uiSyncers.push(() => { sortieCb.checked = params.enableSortieRegulation; });
         sortieCb.addEventListener('change', () => {
             params.enableSortieRegulation = sortieCb.checked;
         });
     }
 
-    const giveUpCb = document.getElementById('enableGiveUp') as HTMLInputElement;
-    if (giveUpCb) {
-        giveUpCb.addEventListener('change', () => {
-            params.enableGiveUp = giveUpCb.checked;
-        });
-    }
+
+    // 計測設定 (SimParams ではないので個別に扱う)
+    const trailEl = document.getElementById('trailThreshold') as HTMLInputElement;
+    const trailVal = document.getElementById('val-trailThreshold') as HTMLElement;
+    trailEl.addEventListener('input', () => {
+        sim.metrics.settings.trailThreshold = parseFloat(trailEl.value);
+        trailVal.textContent = trailEl.value;
+    });
+
+    const withdrawalEl = document.getElementById('withdrawalThreshold') as HTMLInputElement;
+    const withdrawalVal = document.getElementById('val-withdrawalThreshold') as HTMLElement;
+    withdrawalEl.addEventListener('input', () => {
+        // スライダーは % 表記
+        sim.metrics.settings.withdrawalThreshold = parseFloat(withdrawalEl.value) / 100;
+        withdrawalVal.textContent = withdrawalEl.value;
+    });
 
     document.getElementById('mazeBtn')?.addEventListener('click', () => {
-        initMaze();
-        grid.reset();
-        initNests();
-        initFoods();
-        initAgents();
+        sim.reset(readSeed(), { maze: true });
+        setPreset(null);
+        showSeed();
     });
 
     document.getElementById('clearMazeBtn')?.addEventListener('click', () => {
-        obstacles = [];
-        grid.reset();
-        initNests();
-        initFoods();
-        initAgents();
+        sim.clearObstacles();
+        sim.reset(readSeed());
+        setPreset(null);
+        showSeed();
     });
 
     document.getElementById('resetBtn')?.addEventListener('click', () => {
-        grid.reset();
-        initNests(); // 巣の位置も再抽選
-        initFoods();
-        initAgents();
+        sim.reset(readSeed()); // 巣の位置も再抽選
+        setPreset(null);
+        showSeed();
     });
-}
 
-// 描画ループ
-function loop() {
-    // タイマー更新
-    for (const nest of nests) {
-        if (nest.surgeTimer > 0) nest.surgeTimer--;
+    // --- 行動ルール ---
+    uiSyncers.push(renderRuleList);
+    document.getElementById('resetRulesBtn')?.addEventListener('click', () => {
+        sim.rules.setSettings(defaultRuleSettings());
+        renderRuleList();
+    });
+
+    // --- 実験配置 ---
+    const presetSelect = document.getElementById('presetSelect') as HTMLSelectElement;
+    const presetDescriptionEl = document.getElementById('presetDescription');
+    for (const preset of SCENARIO_PRESETS) {
+        const option = document.createElement('option');
+        option.value = preset.id;
+        option.textContent = preset.name;
+        presetSelect?.appendChild(option);
     }
+    const showPresetDescription = () => {
+        const preset = findPreset(presetSelect?.value ?? '');
+        if (presetDescriptionEl) presetDescriptionEl.textContent = preset?.description ?? '';
+    };
+    presetSelect?.addEventListener('change', showPresetDescription);
+    showPresetDescription();
+
+    document.getElementById('presetBtn')?.addEventListener('click', () => {
+        const preset = findPreset(presetSelect.value);
+        if (!preset) return;
+        loadScenario(presetScenario(preset, params, readSeed()));
+        setPreset(preset.id);
+    });
 
-    // エージェントの段階的スポーン
-    if (agents.length < params.agentCount) {
-        spawnAccumulator += params.spawnRate;
-        const spawnCount = Math.floor(spawnAccumulator);
-        spawnAccumulator -= spawnCount;
+    document.getElementById('presetCsvBtn')?.addEventListener('click', () => {
+        if (!presetTracker) return;
+        downloadText(`${presetTracker.preset.id}-seed${sim.seed}.csv`, presetTracker.toCSV(sim.seed), 'text/csv');
+    });
 
-        for (let i = 0; i < spawnCount; i++) {
-            if (agents.length >= params.agentCount) break;
-            const nest = nests[Math.floor(Math.random() * nests.length)];
-            
-            // 規則B: 出撃制御 (Wait and Surge)
-            if (params.enableSortieRegulation) {
-                if (nest.surgeTimer > 0) {
-                    // 動員中: 制限なし
-                } else {
-                    // 待機中: 偵察のみ
-                    if (Math.random() > 0.01) {
-                        continue; 
-                    }
-                }
+    const toolSelect = document.getElementById('editorTool') as HTMLSelectElement;
+    toolSelect?.addEventListener('change', () => {
+        editor.setTool(toolSelect.value as EditorTool);
+    });
+
+    // Worker 側の状態は編集できず、追従カメラ中は座標がずれるので、その間エディタは止める
+    const updateEditorAvailability = () => {
+        const unavailable = simWorker !== null || inspector.follow;
+        if (unavailable) {
+            editor.setTool('off');
+            toolSelect.value = 'off';
+        }
+        toolSelect.disabled = unavailable;
+    };
+
+    editorColonySelect?.addEventListener('change', () => {
+        editor.nestColony = parseInt(editorColonySelect.value);
+    });
+    uiSyncers.push(syncEditorColonies);
+
+    document.getElementById('restartBtn')?.addEventListener('click', () => {
+        // 配置はそのまま。シード欄が空なら現在のシードで再実行する
+        sim.restart(seedInput.value.trim() === '' ? sim.seed : readSeed());
+        showSeed();
+    });
+
+    // --- シナリオの保存・読み込み・共有 ---
+    const includePheromonesCb = document.getElementById('scenarioIncludePheromones') as HTMLInputElement;
+    document.getElementById('saveScenarioBtn')?.addEventListener('click', () => {
+        const scenario = captureScenario(sim, { includePheromones: includePheromonesCb?.checked });
+        downloadText(`scenario-seed${sim.seed}.json`, JSON.stringify(scenario), 'application/json');
+    });
+
+    const scenarioFileInput = document.getElementById('scenarioFile') as HTMLInputElement;
+    document.getElementById('loadScenarioBtn')?.addEventListener('click', () => scenarioFileInput.click());
+    scenarioFileInput?.addEventListener('change', async () => {
+        const file = scenarioFileInput.files?.[0];
+        scenarioFileInput.value = '';
+        if (!file) return;
+        try {
+            loadScenario(parseScenario(await file.text()));
+            setPreset(null);
+        } catch (e) {
+            alert(`シナリオを読み込めません: ${(e as Error).message}`);
+        }
+    });
+
+    // scripts/optimize.ts の結果 (最良のパラメータ) をスライダーに反映する
+    const bestParamsFileInput = document.getElementById('bestParamsFile') as HTMLInputElement;
+    document.getElementById('loadBestParamsBtn')?.addEventListener('click', () => bestParamsFileInput.click());
+    bestParamsFileInput?.addEventListener('change', async () => {
+        const file = bestParamsFileInput.files?.[0];
+        bestParamsFileInput.value = '';
+        if (!file) return;
+        try {
+            const best = parseBestParams(await file.text());
+            const { agentCount, nestCount, foodCount, colonyCount } = params;
+            // 行動ルールのパラメータ ("id.key") はルールの設定へ
+            for (const [key, value] of Object.entries(best)) {
+                if (isRuleKey(key)) setRuleValue(sim.rules.settings, key, value);
+                else Object.assign(params, { [key]: value });
             }
+            syncUI();
+            renderRuleList();
+            if (params.nestCount !== nestCount || params.foodCount !== foodCount || params.colonyCount !== colonyCount) {
+                // 巣・餌場・コロニーの数が変わったら、リセットと同じく配置から作り直す
+                sim.reset(readSeed());
+                setPreset(null);
+                showSeed();
+                syncEditorColonies();
+            } else if (params.agentCount !== agentCount) {
+                sim.initAgents();
+                sim.resetPheromones();
+            }
+        } catch (e) {
+            alert(`最適化の結果を読み込めません: ${(e as Error).message}`);
+        }
+    });
+
+    document.getElementById('shareScenarioBtn')?.addEventListener('click', async () => {
+        const url = new URL(location.href);
+        url.hash = `scenario=${encodeScenarioForUrl(captureScenario(sim))}`;
+        history.replaceState(null, '', url);
+        try {
+            await navigator.clipboard.writeText(url.href);
+            alert('シナリオのURLをコピーしました');
+        } catch {
+            // クリップボードが使えない環境ではアドレスバーの URL を使ってもらう
+            alert('アドレスバーの URL にシナリオを書き込みました');
+        }
+    });
+
+    // --- 再生制御 ---
+    const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
+    const syncPauseBtn = () => {
+        if (pauseBtn) pauseBtn.textContent = playback.paused ? '再開' : '一時停止';
+    };
+    pauseBtn?.addEventListener('click', () => {
+        playback.togglePause();
+        syncPauseBtn();
+    });
+
+    const stepCountEl = document.getElementById('stepCount') as HTMLInputElement;
+    document.getElementById('stepBtn')?.addEventListener('click', () => {
+        playback.step(parseInt(stepCountEl?.value ?? '1') || 1);
+        syncPauseBtn();
+    });
+
+    const speedEl = document.getElementById('playbackSpeed') as HTMLSelectElement;
+    speedEl?.addEventListener('change', () => {
+        playback.speed = parseFloat(speedEl.value);
+    });
+
+    // --- エージェント観察 ---
+    canvas.addEventListener('click', e => {
+        // リプレイ中の個体は sim.agents と対応しないので選べない
+        if (editor.tool !== 'off' || !lastFrame || replaying) return;
+        // 表示座標 -> キャンバス座標 -> (追従中なら拡大を戻して) ワールド座標
+        const rect = canvas.getBoundingClientRect();
+        let x = (e.clientX - rect.left) * (canvas.width / rect.width);
+        let y = (e.clientY - rect.top) * (canvas.height / rect.height);
+        if (currentView) {
+            x = (x - currentView.e!) / currentView.a!;
+            y = (y - currentView.f!) / currentView.d!;
+        }
+        const index = findAgentAt(lastFrame.agents, x, y, 8);
+        if (index === null) return;
+        inspector.select(index);
+        inspectedAgents = sim.agents;
+    });
+
+    const followCb = document.getElementById('followAgent') as HTMLInputElement;
+    followCb?.addEventListener('change', () => {
+        inspector.follow = followCb.checked;
+        updateEditorAvailability();
+    });
+    document.getElementById('clearInspectBtn')?.addEventListener('click', () => inspector.select(null));
+
+    // --- Worker 実行とベンチマーク ---
+    const workerCb = document.getElementById('useWorker') as HTMLInputElement;
+    workerCb?.addEventListener('change', () => {
+        if (workerCb.checked) {
+            simWorker = new SimWorkerClient();
+            workerAgents = null;
+        } else {
+            simWorker?.terminate();
+            simWorker = null;
+        }
+        updateEditorAvailability();
+    });
+
+    const benchmarkBtn = document.getElementById('benchmarkBtn') as HTMLButtonElement;
+    const benchmarkVal = document.getElementById('val-benchmark') as HTMLElement;
+    benchmarkBtn?.addEventListener('click', async () => {
+        benchmarkBtn.disabled = true;
+        benchmarkVal.textContent = '計測中...';
+        // 実行中のシミュレーションとは別の Worker で、現在の配置を最初から回す
+        const worker = new SimWorkerClient();
+        try {
+            const result = await worker.benchmark(captureScenario(sim), BENCHMARK_TICKS);
+            benchmarkVal.textContent = `${result.ticksPerSecond.toFixed(1)} ticks/s (${result.agents} 体)`;
+        } catch (e) {
+            benchmarkVal.textContent = `計測できません: ${(e as Error).message}`;
+        } finally {
+            worker.terminate();
+            benchmarkBtn.disabled = false;
+        }
+    });
+
+    // 記録はこのスレッドの sim にしかない (Worker 実行中の分は取れない)
+    const downloadCascades = (name: string, csv: () => string) => {
+        if (simWorker) {
+            alert('Worker で実行中はカスケードの記録を書き出せません');
+            return;
+        }
+        if (sim.cascades.truncated) alert('記録の上限を超えたため、途中までの記録を書き出します');
+        downloadText(`${name}-seed${sim.seed}.csv`, csv(), 'text/csv');
+    };
+    document.getElementById('cascadeCsvBtn')?.addEventListener('click', () => {
+        downloadCascades('cascades', () => sim.cascades.toCSV(sim.seed));
+    });
+    document.getElementById('excitationCsvBtn')?.addEventListener('click', () => {
+        downloadCascades('excitations', () => sim.cascades.excitationsToCSV(sim.seed));
+    });
+
+    document.getElementById('csvBtn')?.addEventListener('click', () => {
+        downloadText(`timeseries-seed${sim.seed}.csv`, recorder.toCSV(params, sim.rules.settings, sim.seed), 'text/csv');
+    });
+
+    // --- イベント ---
+    const eventsTextEl = document.getElementById('eventsText') as HTMLTextAreaElement;
+    const setEvents = (events: SimEvent[]) => {
+        sim.setEvents(events);
+        // Worker 側の予定も変わるので最初から実行し直す
+        workerAgents = null;
+        syncEventsText();
+    };
+    uiSyncers.push(syncEventsText);
+
+    document.getElementById('addEventBtn')?.addEventListener('click', () => {
+        const type = (document.getElementById('eventType') as HTMLSelectElement).value as SimEventType;
+        const tick = Math.max(0, parseInt((document.getElementById('eventTick') as HTMLInputElement).value) || 0);
+        try {
+            const events = eventsTextEl.value.trim() === '' ? [] : parseEvents(eventsTextEl.value);
+            eventsTextEl.value = formatEvents([...events, eventTemplate(type, tick)]);
+        } catch (e) {
+            alert(`予定を読めません: ${(e as Error).message}`);
+        }
+    });
+
+    document.getElementById('applyEventsBtn')?.addEventListener('click', () => {
+        try {
+            setEvents(eventsTextEl.value.trim() === '' ? [] : parseEvents(eventsTextEl.value));
+        } catch (e) {
+            alert(`予定を読めません: ${(e as Error).message}`);
+        }
+    });
+
+    document.getElementById('saveEventsBtn')?.addEventListener('click', () => {
+        downloadText(`events-seed${sim.seed}.json`, formatEvents([...sim.scheduledEvents]), 'application/json');
+    });
+
+    const eventsFileInput = document.getElementById('eventsFile') as HTMLInputElement;
+    document.getElementById('loadEventsBtn')?.addEventListener('click', () => eventsFileInput.click());
+    eventsFileInput?.addEventListener('change', async () => {
+        const file = eventsFileInput.files?.[0];
+        eventsFileInput.value = '';
+        if (!file) return;
+        try {
+            setEvents(parseEvents(await file.text()));
+        } catch (e) {
+            alert(`イベントを読み込めません: ${(e as Error).message}`);
+        }
+    });
+
+    // --- 記録・リプレイ ---
+    recordBtn?.addEventListener('click', () => {
+        if (recording?.active) {
+            recording.active = false;
+        } else {
+            setReplaying(false);
+            recording = new RunRecording(captureScenario(sim));
+        }
+        syncRecordingUI();
+    });
+
+    document.getElementById('saveRecordingBtn')?.addEventListener('click', async () => {
+        if (!recording || recording.ticks.length === 0) {
+            alert('保存する記録がありません');
+            return;
+        }
+        // 位置の列は隣り合うティックでよく似ているので gzip がよく効く
+        const stream = new Blob([recording.serialize()]).stream().pipeThrough(new CompressionStream('gzip'));
+        downloadBlob(`recording-seed${recording.scenario.seed}.antrec`, await new Response(stream).blob());
+    });
+
+    const recordingFileInput = document.getElementById('recordingFile') as HTMLInputElement;
+    document.getElementById('loadRecordingBtn')?.addEventListener('click', () => recordingFileInput.click());
+    recordingFileInput?.addEventListener('change', async () => {
+        const file = recordingFileInput.files?.[0];
+        recordingFileInput.value = '';
+        if (!file) return;
+        try {
+            recording = parseRecording(await readMaybeGzipped(file));
+            setReplaying(true);
+        } catch (e) {
+            alert(`記録を読み込めません: ${(e as Error).message}`);
+        }
+    });
+
+    // --- 占有ヒートマップ ---
+    const heatmapCellSizeEl = document.getElementById('heatmapCellSize') as HTMLSelectElement;
+    const heatmapWindowEl = document.getElementById('heatmapWindow') as HTMLInputElement;
+    heatmapStartBtn?.addEventListener('click', () => {
+        if (heatmapActive) {
+            heatmapActive = false;
+        } else {
+            heatmap = new HeatmapAccumulator(
+                parseInt(heatmapCellSizeEl?.value ?? '10'), Math.max(0, parseInt(heatmapWindowEl?.value) || 0)
+            );
+            heatmapActive = true;
+            if (densityViewEl) densityViewEl.value = 'heatmap';
+        }
+        syncHeatmapUI();
+    });
+    densityViewEl?.addEventListener('change', syncHeatmapUI);
 
-            agents.push(new Agent(nest.x, nest.y));
+    const heatmapSlotEl = document.getElementById('heatmapSlot') as HTMLSelectElement;
+    const slot = () => (heatmapSlotEl?.value ?? 'A') as 'A' | 'B';
+    document.getElementById('keepHeatmapBtn')?.addEventListener('click', () => {
+        if (!heatmap || heatmap.ticks === 0) {
+            alert('保持する集計結果がありません');
+            return;
+        }
+        heatmapSlots[slot()] = heatmap.result();
+        syncHeatmapUI();
+    });
+
+    const heatmapFileInput = document.getElementById('heatmapFile') as HTMLInputElement;
+    document.getElementById('loadHeatmapBtn')?.addEventListener('click', () => heatmapFileInput.click());
+    heatmapFileInput?.addEventListener('change', async () => {
+        const file = heatmapFileInput.files?.[0];
+        heatmapFileInput.value = '';
+        if (!file) return;
+        try {
+            heatmapSlots[slot()] = parseHeatmapCSV(await file.text());
+            syncHeatmapUI();
+        } catch (e) {
+            alert(`ヒートマップを読み込めません: ${(e as Error).message}`);
+        }
+    });
+
+    document.getElementById('heatmapCsvBtn')?.addEventListener('click', () => {
+        const map = displayedHeatmap();
+        if (!map) {
+            alert('書き出すヒートマップがありません');
+            return;
         }
+        const name = densityViewEl.value === 'diff' ? 'heatmap-diff' : `heatmap-seed${sim.seed}`;
+        // 時系列の CSV と同じく、パラメータと行動ルールの設定も書き込む
+        const meta = { seed: sim.seed, ...params, ...Object.fromEntries(ruleSettingEntries(sim.rules.settings)) };
+        downloadText(`${name}.csv`, heatmapToCSV(map, meta), 'text/csv');
+    });
+    document.getElementById('heatmapPngBtn')?.addEventListener('click', () => {
+        // 右のキャンバスに今出ているもの (密度・集計・差分) をそのまま書き出す
+        densityCanvas.toBlob(blob => {
+            if (blob) downloadBlob(`${densityViewEl?.value ?? 'density'}-seed${sim.seed}.png`, blob);
+        }, 'image/png');
+    });
+
+    replayBtn?.addEventListener('click', () => setReplaying(!replaying));
+    replayScrubber?.addEventListener('input', () => {
+        replayIndex = parseInt(replayScrubber.value);
+    });
+    syncRecordingUI();
+    syncHeatmapUI();
+}
+
+function setPreset(id: string | null) {
+    const preset = id === null ? null : findPreset(id);
+    presetTracker = preset ? new PresetTracker(preset) : null;
+    const labelEl = document.getElementById('presetMeasureLabel');
+    if (labelEl) labelEl.textContent = `計測: ${preset?.measure.label ?? '-'}`;
+    const csvBtn = document.getElementById('presetCsvBtn') as HTMLButtonElement;
+    if (csvBtn) csvBtn.disabled = !preset;
+}
+
+// 行動ルールの一覧 (並べ替えたら作り直す)。ルール名にカーソルを合わせると説明が出る
+function renderRuleList() {
+    const listEl = document.getElementById('ruleList');
+    if (!listEl) return;
+    listEl.replaceChildren();
+    const settings = sim.rules.settings;
+    settings.forEach((setting, i) => {
+        const rule = getRule(setting.id);
+        if (!rule) return;
+        const row = document.createElement('div');
+        row.style.cssText = 'border: 1px solid #555; border-radius: 4px; padding: 4px 6px;';
+
+        const head = document.createElement('label');
+        head.style.cssText = 'display: flex; align-items: center; gap: 6px; margin: 0; cursor: pointer;';
+        const enabledCb = document.createElement('input');
+        enabledCb.type = 'checkbox';
+        enabledCb.checked = setting.enabled;
+        enabledCb.addEventListener('change', () => sim.rules.setEnabled(setting.id, enabledCb.checked));
+        const nameEl = document.createElement('span');
+        nameEl.textContent = rule.name;
+        nameEl.title = rule.description;
+        nameEl.style.cssText = 'flex: 1; font-size: 0.85rem;';
+        head.append(enabledCb, nameEl, ruleMoveButton('▲', setting.id, -1, i === 0),
+            ruleMoveButton('▼', setting.id, 1, i === settings.length - 1));
+        row.appendChild(head);
+
+        for (const param of rule.params ?? []) row.appendChild(ruleParamControl(setting, param));
+        listEl.appendChild(row);
+    });
+}
+
+function ruleMoveButton(text: string, id: string, delta: number, disabled: boolean): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.disabled = disabled;
+    button.style.cssText = 'padding: 0 6px; cursor: pointer;';
+    button.addEventListener('click', e => {
+        e.preventDefault(); // label の中なのでチェックボックスを切り替えない
+        sim.rules.move(id, delta);
+        renderRuleList();
+    });
+    return button;
+}
+
+function ruleParamControl(setting: RuleSetting, param: RuleParam): HTMLElement {
+    const group = document.createElement('div');
+    group.className = 'control-group';
+    group.style.cssText = 'margin: 4px 0 0 22px;';
+    const label = document.createElement('label');
+    label.textContent = param.label;
+    const input = document.createElement('input');
+    input.type = 'range';
+    input.min = String(param.min);
+    input.max = String(param.max);
+    input.step = String(param.step);
+    input.value = String(setting.params[param.key]);
+    const valEl = document.createElement('span');
+    valEl.className = 'values';
+    valEl.textContent = input.value;
+    input.addEventListener('input', () => {
+        setting.params[param.key] = parseFloat(input.value);
+        valEl.textContent = input.value;
+    });
+    group.append(label, input, valEl);
+    return group;
+}
+
+// 1件1行の JSON (手で編集しやすいように)
+function formatEvents(events: SimEvent[]): string {
+    if (events.length === 0) return '[]';
+    return '[\n' + events.map(e => '    ' + JSON.stringify(e)).join(',\n') + '\n]';
+}
+
+function syncEventsText() {
+    const el = document.getElementById('eventsText') as HTMLTextAreaElement;
+    if (el) el.value = formatEvents([...sim.scheduledEvents]);
+}
+
+const recordBtn = document.getElementById('recordBtn') as HTMLButtonElement;
+const recordingValEl = document.getElementById('val-recording');
+const replayBtn = document.getElementById('replayBtn') as HTMLButtonElement;
+const replayReverseCb = document.getElementById('replayReverse') as HTMLInputElement;
+const replayScrubber = document.getElementById('replayScrubber') as HTMLInputElement;
+const replayTickEl = document.getElementById('val-replayTick');
+
+// リプレイ中はシミュレーションを進めず、記録を再生制御のティック数ぶん前後に動かして描く
+function setReplaying(on: boolean) {
+    replaying = on && recording !== null && recording.ticks.length > 0;
+    if (replaying) {
+        recording!.active = false;
+        replayIndex = 0;
     }
+    syncRecordingUI();
+}
 
-    // 1. フェロモン蒸発
-    grid.evaporate(params.evaporationRate);
+function syncRecordingUI() {
+    if (recordBtn) recordBtn.textContent = recording?.active ? '記録停止' : '記録開始';
+    if (recordingValEl) {
+        recordingValEl.textContent = recording
+            ? `${recording.ticks.length} tick / ${(recording.bytes / 1024 / 1024).toFixed(1)} MB` + (recording.full ? ' (上限)' : '')
+            : '-';
+    }
+    if (replayBtn) replayBtn.textContent = replaying ? 'リプレイ終了' : 'リプレイ開始';
+    if (replayScrubber) {
+        replayScrubber.disabled = !replaying;
+        replayScrubber.max = String(Math.max(0, (recording?.ticks.length ?? 1) - 1));
+        replayScrubber.value = String(replayIndex);
+    }
+    if (replayTickEl) replayTickEl.textContent = replaying ? String(recording!.ticks[replayIndex].tick) : '-';
+}
 
-    // 2. エージェント更新
-    // 接触判定のための空間分割 (簡易グリッド)
-    const cellSize = 10; // 10px単位のグリッド
-    const cols = Math.ceil(WIDTH / cellSize);
-    const spatialMap = new Map<number, Agent[]>();
-    
-    // マップ構築
-    for (const agent of agents) {
-        const cx = Math.floor(agent.x / cellSize);
-        const cy = Math.floor(agent.y / cellSize);
-        const key = cy * cols + cx;
-        if (!spatialMap.has(key)) spatialMap.set(key, []);
-        spatialMap.get(key)!.push(agent);
+const densityViewEl = document.getElementById('densityView') as HTMLSelectElement;
+const densityTitleEl = document.getElementById('densityTitle');
+const heatmapStartBtn = document.getElementById('heatmapStartBtn') as HTMLButtonElement;
+const heatmapValEl = document.getElementById('val-heatmap');
+const heatmapScaleEl = document.getElementById('heatmapScale') as HTMLSelectElement;
+const heatmapMaxEl = document.getElementById('heatmapMax') as HTMLInputElement;
+
+// 表示中のヒートマップ (差分はセルサイズが揃っているときだけ)
+function displayedHeatmap(): Heatmap | null {
+    if (densityViewEl?.value === 'diff') {
+        const { A, B } = heatmapSlots;
+        return A && B && A.cellSize === B.cellSize ? diffHeatmaps(A, B) : null;
     }
+    return heatmap && heatmap.ticks > 0 ? heatmap.result() : null;
+}
 
-    for (const agent of agents) {
-        const cx = Math.floor(agent.x / cellSize);
-        const cy = Math.floor(agent.y / cellSize);
-        const key = cy * cols + cx;
-        const neighbors = spatialMap.get(key) || [];
-        agent.update(grid, neighbors);
+function drawHeatmapView(diverging: boolean) {
+    const map = displayedHeatmap();
+    if (!map) {
+        densityCtx.fillStyle = 'black';
+        densityCtx.fillRect(0, 0, WIDTH, HEIGHT);
+        return;
     }
+    const max = parseFloat(heatmapMaxEl?.value ?? '');
+    drawHeatmap(densityCtx, map, {
+        scale: (heatmapScaleEl?.value ?? 'linear') as HeatmapScale,
+        maxValue: max > 0 ? max : null,
+        diverging
+    });
+}
 
-    // 3. 描画
-    
-    // --- 密度マップ描画 ---
-    densityCtx.fillStyle = 'black';
-    densityCtx.fillRect(0, 0, WIDTH, HEIGHT);
+function describeHeatmap(map: Pick<Heatmap, 'cellSize' | 'ticks' | 'startTick' | 'endTick'> | null): string {
+    if (!map) return '-';
+    return `${map.cellSize}px, ${map.ticks} tick` + (map.startTick >= 0 ? ` (${map.startTick}〜${map.endTick})` : '');
+}
 
-    const maxDensity = 5; // この数以上で真っ赤
-    for (const [key, agentsInCell] of spatialMap.entries()) {
-        const count = agentsInCell.length;
-        if (count === 0) continue;
+function syncHeatmapUI() {
+    if (heatmapStartBtn) heatmapStartBtn.textContent = heatmapActive ? '集計停止' : '集計開始';
+    if (heatmapValEl) {
+        heatmapValEl.textContent = heatmap
+            ? describeHeatmap(heatmap) + (heatmap.done ? ' 完了' : heatmapActive ? ' 集計中' : '')
+            : '-';
+    }
+    const valA = document.getElementById('val-heatmapA');
+    const valB = document.getElementById('val-heatmapB');
+    if (valA) valA.textContent = describeHeatmap(heatmapSlots.A);
+    if (valB) valB.textContent = describeHeatmap(heatmapSlots.B);
+    if (densityTitleEl) {
+        const view = densityViewEl?.value;
+        const { A, B } = heatmapSlots;
+        densityTitleEl.textContent =
+            view === 'heatmap' ? '累積ヒートマップ (平均個体数)'
+            : view !== 'diff' ? '密度マップ'
+            : A && B && A.cellSize !== B.cellSize ? '差分 (A と B のセルサイズが違います)'
+            : '差分 (A − B)';
+    }
+}
+
+// gzip 圧縮されていれば (先頭が 1f 8b) 展開して読む
+async function readMaybeGzipped(file: File): Promise<Uint8Array> {
+    const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const gzipped = head[0] === 0x1f && head[1] === 0x8b;
+    const stream = gzipped ? file.stream().pipeThrough(new DecompressionStream('gzip')) : file.stream();
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// 巣を置くときのコロニー選択肢をコロニー数に合わせる
+const editorColonySelect = document.getElementById('editorColony') as HTMLSelectElement;
+function syncEditorColonies() {
+    if (!editorColonySelect) return;
+    const count = sim.colonyCount;
+    editorColonySelect.innerHTML = '';
+    for (let c = 0; c < count; c++) {
+        const option = document.createElement('option');
+        option.value = String(c);
+        option.textContent = `コロニー${c}`;
+        editorColonySelect.appendChild(option);
+    }
+    editor.nestColony = Math.min(editor.nestColony, count - 1);
+    editorColonySelect.value = String(editor.nestColony);
+}
+
+function colonyColor(colony: number, alpha: number): string {
+    const [r, g, b] = COLONY_COLORS[colony % COLONY_COLORS.length];
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+function showSeed() {
+    if (seedValEl) seedValEl.textContent = String(sim.seed);
+}
+
+function loadScenario(scenario: Scenario) {
+    applyScenario(sim, scenario);
+    seedInput.value = String(scenario.seed);
+    syncUI();
+    showSeed();
+}
+
+// URL の "#scenario=..." から読み込む
+function loadScenarioFromHash() {
+    const match = location.hash.match(/^#scenario=(.+)$/);
+    if (!match) return;
+    try {
+        loadScenario(decodeScenarioFromUrl(match[1]));
+    } catch (e) {
+        alert(`URL のシナリオを読み込めません: ${(e as Error).message}`);
+    }
+}
+
+// 描画 (フレームはこのスレッドの sim か Worker から来る)
+function render(frame: FrameSnapshot) {
+    const layers = frame.pheromones;
+    const multiColony = layers.length > 1;
+
+    // --- 密度マップ描画 ---
+    if (densityViewEl && densityViewEl.value !== 'current') {
+        drawHeatmapView(densityViewEl.value === 'diff');
+    } else {
+        densityCtx.fillStyle = 'black';
+        densityCtx.fillRect(0, 0, WIDTH, HEIGHT);
+
+        const cellSize = SPATIAL_CELL_SIZE;
+        const cols = sim.spatial.cols;
+        const maxDensity = 5; // この数以上で真っ赤
+        for (let key = 0; key < frame.density.length; key++) {
+            const count = frame.density[key];
+            if (count === 0) continue;
         
-        const cx = key % cols;
-        const cy = Math.floor(key / cols);
+            const cx = key % cols;
+            const cy = Math.floor(key / cols);
         
-        const ratio = Math.min(1.0, count / maxDensity);
-        const hue = 240 * (1.0 - ratio); // Blue -> Red
-        densityCtx.fillStyle = `hsla(${hue}, 100%, 50%, 0.6)`;
-        densityCtx.fillRect(cx * cellSize, cy * cellSize, cellSize, cellSize);
+            const ratio = Math.min(1.0, count / maxDensity);
+            const hue = 240 * (1.0 - ratio); // Blue -> Red
+            densityCtx.fillStyle = `hsla(${hue}, 100%, 50%, 0.6)`;
+            densityCtx.fillRect(cx * cellSize, cy * cellSize, cellSize, cellSize);
+        }
     }
 
     // --- 通常描画 ---
-    const imgData = ctx.getImageData(0, 0, WIDTH, HEIGHT);
-        const data = imgData.data;
-
-        // 背景とフェロモンを描画
-        for (let i = 0; i < grid.homeGrid.length; i++) {
-            const homeIntensity = grid.homeGrid[i];
-            const foodIntensity = grid.foodGrid[i];
+    // 画面全体を毎回描き直すので、読み戻さずに使い回す
+    const imgData = frameImage;
+    const data = imgData.data;
+
+    // 背景とフェロモンを描画
+    if (!multiColony) {
+        const grid = layers[0];
+        for (let i = 0; i < grid.home.length; i++) {
+            const homeIntensity = grid.home[i];
+            const foodIntensity = grid.food[i];
             
             const idx = i * 4;
             
@@ -764,85 +925,319 @@ function loop() {
             data[idx + 2] = Math.min(255, homeIntensity * 255 * 2); // B: Home
             data[idx + 3] = 255; // Alpha
         }
+    } else {
+        // 複数コロニー: 各コロニーの匂い (HOME + FOOD) をコロニー色で加算
+        data.fill(0);
+        layers.forEach((grid, c) => {
+            const [cr, cg, cb] = COLONY_COLORS[c % COLONY_COLORS.length];
+            for (let i = 0; i < grid.home.length; i++) {
+                const intensity = Math.min(1, (grid.home[i] + grid.food[i]) * 2);
+                if (intensity <= 0) continue;
+                const idx = i * 4;
+                data[idx] = Math.min(255, data[idx] + cr * intensity);
+                data[idx + 1] = Math.min(255, data[idx + 1] + cg * intensity);
+                data[idx + 2] = Math.min(255, data[idx + 2] + cb * intensity);
+            }
+        });
+        for (let i = 3; i < data.length; i += 4) data[i] = 255;
+    }
+
+    // 立入禁止フェロモンを重ねる (コロニーを問わず同じ色)
+    const [rr, rg, rb] = REPELLENT_COLOR;
+    for (const grid of layers) {
+        for (let i = 0; i < grid.repel.length; i++) {
+            const intensity = Math.min(1, grid.repel[i] * 2);
+            if (intensity <= 0) continue;
+            const idx = i * 4;
+            data[idx] = Math.min(255, data[idx] + rr * intensity);
+            data[idx + 1] = Math.min(255, data[idx + 1] + rg * intensity);
+            data[idx + 2] = Math.min(255, data[idx + 2] + rb * intensity);
+        }
+    }
 
-        // エージェントを描画（白い点）
-        for (const agent of agents) {
-            const x = Math.floor(agent.x);
-            const y = Math.floor(agent.y);
-            const idx = (y * WIDTH + x) * 4;
-            if (idx >= 0 && idx < data.length) {
-                if (agent.excitedLevel === 2) {
-                    // 発信源: オレンジ
-                    data[idx] = 255;
-                    data[idx + 1] = 150;
-                    data[idx + 2] = 50;
-                } else if (agent.excitedLevel === 1) {
-                    // 伝播: 黄色
-                    data[idx] = 255;
-                    data[idx + 1] = 255;
-                    data[idx + 2] = 100;
-                } else {
-                    data[idx] = 255;
-                    data[idx + 1] = 255;
-                    data[idx + 2] = 255;
-                }
-                data[idx + 3] = 255; // Alpha
+    // エージェントを描画（白い点）
+    const agents = frame.agents;
+    for (let a = 0; a < agents.count; a++) {
+        const state = agents.state[a];
+        if (!isOnField(state)) continue;
+        const excitedLevel = agents.excitedLevel[a];
+        const x = Math.floor(agents.x[a]);
+        const y = Math.floor(agents.y[a]);
+        const idx = (y * WIDTH + x) * 4;
+        if (idx >= 0 && idx < data.length) {
+            if (excitedLevel === 2) {
+                // 発信源: オレンジ
+                data[idx] = 255;
+                data[idx + 1] = 150;
+                data[idx + 2] = 50;
+            } else if (excitedLevel === 1) {
+                // 伝播: 黄色
+                data[idx] = 255;
+                data[idx + 1] = 255;
+                data[idx + 2] = 100;
+            } else if (state === AgentState.RETURNING_HOME) {
+                // 諦めて帰巣中: 水色
+                data[idx] = 136;
+                data[idx + 1] = 204;
+                data[idx + 2] = 255;
+            } else if (multiColony) {
+                // 複数コロニー: コロニー色を明るくした色
+                const [cr, cg, cb] = COLONY_COLORS[agents.colony[a] % COLONY_COLORS.length];
+                data[idx] = (cr + 255) >> 1;
+                data[idx + 1] = (cg + 255) >> 1;
+                data[idx + 2] = (cb + 255) >> 1;
+            } else {
+                data[idx] = 255;
+                data[idx + 1] = 255;
+                data[idx + 2] = 255;
             }
+            data[idx + 3] = 255; // Alpha
         }
+    }
+    const view = inspector.viewTransform(frame.inspected, WIDTH, HEIGHT);
+    if (view) {
+        // 追従カメラ: いったん裏のキャンバスに描いてから拡大して貼る
+        pixelCtx.putImageData(imgData, 0, 0);
+        ctx.fillStyle = 'black';
+        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+        ctx.setTransform(view);
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(pixelCanvas, 0, 0);
+    } else {
         ctx.putImageData(imgData, 0, 0);
+    }
+    currentView = view;
 
     // 重要な場所を円で描画（オーバーレイ）
-    ctx.strokeStyle = "rgba(100, 100, 255, 0.5)";
     ctx.lineWidth = 2;
     
-    for (const nest of nests) {
+    for (const nest of frame.nests) {
+        ctx.strokeStyle = multiColony ? colonyColor(nest.colony, 0.8) : "rgba(100, 100, 255, 0.5)";
         ctx.beginPath();
         ctx.arc(nest.x, nest.y, nest.r, 0, Math.PI*2); // Nest
         ctx.stroke();
     }
 
     ctx.strokeStyle = "rgba(255, 100, 100, 0.5)";
-    for(const f of foodSources){
+    for(const f of frame.foodSources){
+        if (f.capacity > 0) {
+            // 有限の餌場: 残量を扇形で、空なら灰色の点線で表示
+            ctx.fillStyle = "rgba(255, 100, 100, 0.25)";
+            ctx.beginPath();
+            ctx.moveTo(f.x, f.y);
+            ctx.arc(f.x, f.y, f.r, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (f.amount / f.capacity));
+            ctx.fill();
+        }
+        ctx.save();
+        if (isDepleted(f)) {
+            ctx.strokeStyle = "rgba(150, 150, 150, 0.6)";
+            ctx.setLineDash([4, 4]);
+        }
         ctx.beginPath();
         ctx.arc(f.x, f.y, f.r, 0, Math.PI*2);
         ctx.stroke();
+        ctx.restore();
     }
 
     ctx.fillStyle = "#888";
-    for(const obs of obstacles){
+    for(const obs of frame.obstacles){
         ctx.fillRect(obs.x, obs.y, obs.w, obs.h);
     }
 
+    // 実験配置の計測領域 (A: 橙, B: 水色)
+    if (presetTracker && !replaying) {
+        const measure = presetTracker.preset.measure;
+        ctx.save();
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.strokeStyle = 'rgba(255, 170, 60, 0.7)';
+        for (const r of measure.a) ctx.strokeRect(r.x, r.y, r.w, r.h);
+        ctx.strokeStyle = 'rgba(80, 200, 255, 0.7)';
+        for (const r of measure.b) ctx.strokeRect(r.x, r.y, r.w, r.h);
+        ctx.restore();
+    }
+
+    editor.drawOverlay(ctx);
+    inspector.record(frame.inspected);
+    inspector.drawOverlay(ctx, frame.inspected, params.sensorAngle, params.sensorDist);
+    ctx.resetTransform();
+    if (inspectorEl) inspector.renderPanel(inspectorEl, frame.inspected);
+    lastFrame = frame;
+
     // --- 統計更新 ---
-    let cForaging = 0;
-    let cReturning = 0;
-    let cExcited2 = 0;
-    let cExcited1 = 0;
+    const stats = frame.stats;
+    drawTimeSeriesChart(chartCtx, recorder.rows, CHART_WINDOW_TICKS);
+
+    if (statTickEl) statTickEl.textContent = String(stats.tick);
+    if (presetMeasureEl && presetTracker) {
+        const share = presetTracker.recentShare(PRESET_MEAN_TICKS);
+        presetMeasureEl.textContent = `${share === null ? '-' : `${(share * 100).toFixed(1)}%`} (直近${PRESET_MEAN_TICKS} tick)`;
+    } else if (presetMeasureEl) {
+        presetMeasureEl.textContent = '-';
+    }
+    if (eventsValEl && !replaying) {
+        // ティック T のイベントは T の処理の前に実行される (Worker モードでも同じ数え方)
+        const events = sim.scheduledEvents;
+        eventsValEl.textContent = `${events.filter(e => e.tick < stats.tick).length} / ${events.length}`;
+    }
+    if (statTotalEl) statTotalEl.textContent = String(stats.total);
+    if (statForagingEl) statForagingEl.textContent = String(stats.foraging);
+    if (statReturningEl) statReturningEl.textContent = String(stats.returning);
+    if (statReturningHomeEl) statReturningHomeEl.textContent = String(stats.returningHome);
+    if (statGiveUpsEl) statGiveUpsEl.textContent = String(stats.giveUps);
+    if (statInNestEl) statInNestEl.textContent = String(stats.inNest);
+    if (statDeliveredEl) statDeliveredEl.textContent = String(stats.deliveriesPerNest.reduce((a, b) => a + b, 0));
+    if (statFoodRemainingEl) {
+        statFoodRemainingEl.textContent = frame.foodSources.some(f => f.capacity > 0) ? String(stats.foodRemaining) : '∞';
+    }
+    if (statStoredEl) {
+        statStoredEl.textContent = sim.rules.isEnabled('metabolism')
+            ? stats.colonies.reduce((sum, c) => sum + c.stored, 0).toFixed(1)
+            : '-';
+    }
+    if (statDeathsBirthsEl) statDeathsBirthsEl.textContent = `${stats.deaths} / ${stats.births}`;
+    if (statExcited2El) statExcited2El.textContent = String(stats.excited2);
+    if (statExcited1El) statExcited1El.textContent = String(stats.excited1);
+    const cascades = frame.cascades;
+    if (statCascadesEl) statCascadesEl.textContent = cascades ? `${cascades.count} / ${cascades.recruited}` : '-';
+    if (statCascadeMaxEl) statCascadeMaxEl.textContent = cascades ? `${cascades.maxSize} / ${cascades.maxDepth}` : '-';
+
+    const metrics = frame.metrics;
+    if (metrics) {
+        if (statOnTrailEl) statOnTrailEl.textContent = `${(metrics.onTrailFraction * 100).toFixed(1)}%`;
+        if (statOffTrailEl) statOffTrailEl.textContent = `${(metrics.offTrailOccupancy * 100).toFixed(1)}%`;
+        if (statGiniEl) statGiniEl.textContent = metrics.gini.toFixed(3);
+        if (statEntropyEl) statEntropyEl.textContent = metrics.entropy.toFixed(3);
+        if (statFirstDiscoveryEl) statFirstDiscoveryEl.textContent = String(metrics.firstDiscoveryTick ?? '-');
+        if (statWithdrawalEl) {
+            statWithdrawalEl.textContent = metrics.withdrawalJudged ? String(metrics.withdrawalTick ?? '-') : '対象外 (単一フェロモン)';
+        }
+    }
 
-    for (const agent of agents) {
-        if (agent.state === AgentState.FORAGING) cForaging++;
-        else cReturning++;
+    if (colonyStatsEl) {
+        colonyStatsEl.innerHTML = stats.colonies.length > 1
+            ? stats.colonies.map((c, i) =>
+                `<div style="display: flex; justify-content: space-between; color: ${colonyColor(i, 1)};">` +
+                `<span>コロニー${i} 数/外/帰/餌:</span> <span>${c.total}/${c.outside}/${c.returning}/${c.delivered}</span></div>`
+            ).join('')
+            : '';
+    }
+}
 
-        if (agent.excitedLevel === 2) cExcited2++;
-        else if (agent.excitedLevel === 1) cExcited1++;
+// Worker モード: シミュレーションを別スレッドで回し、このスレッドは描画だけを行う
+let simWorker: SimWorkerClient | null = null;
+let workerAgents: Agent[] | null = null; // Worker に渡したときの sim.agents
+let workerBacklog = 0; // Worker の応答待ちの間に溜まったティック数
+// 最後に Worker へ送った params と行動ルール (UI で変えた分だけを送るための比較用)
+let workerParams: SimParams | null = null;
+let workerRules = '';
+
+// 前回送ったときから UI で変えた params の項目
+// Worker の params はイベントでも変わるので、変えていない項目は送らない
+function changedWorkerParams(): Partial<SimParams> {
+    const changed: Partial<SimParams> = {};
+    for (const key of Object.keys(params) as (keyof SimParams)[]) {
+        // @ts-ignore
+        if (params[key] !== workerParams?.[key]) changed[key] = params[key];
     }
+    workerParams = { ...params };
+    return changed;
+}
 
-    if (statTotalEl) statTotalEl.textContent = String(agents.length);
-    if (statForagingEl) statForagingEl.textContent = String(cForaging);
-    if (statReturningEl) statReturningEl.textContent = String(cReturning);
-    if (statExcited2El) statExcited2El.textContent = String(cExcited2);
-    if (statExcited1El) statExcited1El.textContent = String(cExcited1);
+// 前回送ったときから行動ルールの設定が変わっていれば、その設定 (変わっていなければ null)
+function changedWorkerRules(): RuleSetting[] | null {
+    const json = JSON.stringify(sim.rules.settings);
+    if (json === workerRules) return null;
+    workerRules = json;
+    return sim.rules.settings;
+}
 
+function stepWorker(worker: SimWorkerClient, ticks: number) {
+    // 個体や配置を作り直したら (sim.agents が入れ替わる)、Worker も最初から実行し直す
+    if (workerAgents !== sim.agents) {
+        worker.start(captureScenario(sim));
+        workerAgents = sim.agents;
+        workerBacklog = 0;
+        workerParams = { ...params };
+        workerRules = JSON.stringify(sim.rules.settings);
+    }
+    workerBacklog += ticks;
+    if (worker.busy || workerBacklog === 0) return;
+    const advanced = workerBacklog;
+    const request = worker.requestFrame(
+        advanced, changedWorkerParams(), changedWorkerRules(), sim.metrics.settings, recorder.stride, inspector.selected
+    );
+    request.then(({ frame, history }) => {
+        for (const stats of history) recorder.record(stats);
+        if (heatmapActive) heatmap!.accumulate(frame.agents, frame.stats.tick, advanced);
+        presetTracker?.record(frame.stats.tick, frame.agents);
+        // Worker からは描画のたびにしか届かないので、記録もその間隔になる
+        recording?.capture(frame);
+        if (!replaying) render(frame);
+    }, (e: Error) => {
+        // 壊れた Worker は捨てて、このスレッドの sim で続ける
+        if (worker !== simWorker) return;
+        stopWorker();
+        alert(`Worker でエラーが起きたため、メインスレッドでの実行に戻します: ${e.message}`);
+    });
+    workerBacklog = 0;
+}
+
+// 「Worker で実行」をオフにしたのと同じ扱いにする
+function stopWorker() {
+    const workerCb = document.getElementById('useWorker') as HTMLInputElement;
+    if (workerCb) {
+        workerCb.checked = false;
+        workerCb.dispatchEvent(new Event('change'));
+    } else {
+        simWorker?.terminate();
+        simWorker = null;
+    }
+}
+
+// 描画ループ: 進めるティック数は再生制御が決め、描画はフレームごとに1回だけ
+function loop(now: number) {
+    const ticks = playback.advance(now);
+    if (inspectedAgents !== sim.agents) inspector.select(null);
+    if (replaying && recording) {
+        const direction = replayReverseCb?.checked ? -1 : 1;
+        replayIndex = Math.max(0, Math.min(recording.ticks.length - 1, replayIndex + ticks * direction));
+        render(recording.frameAt(replayIndex));
+        syncRecordingUI();
+    } else if (simWorker) {
+        stepWorker(simWorker, ticks);
+    } else {
+        const capturing = recording?.active && !recording.full;
+        for (let i = 0; i < ticks; i++) {
+            sim.step();
+            if (heatmapActive) heatmap!.accumulate(sim.store, sim.tick);
+            presetTracker?.record(sim.tick, sim.store);
+            if (capturing) {
+                const frame = captureFrame(sim, false);
+                recorder.record(frame.stats);
+                recording!.capture(frame);
+            } else if (recorder.accepts(sim.tick)) {
+                recorder.record(sim.getStats());
+            }
+        }
+        render(captureFrame(sim, false, inspector.selected));
+        if (capturing) syncRecordingUI();
+    }
+    if (heatmapActive) {
+        if (heatmap!.done) heatmapActive = false;
+        syncHeatmapUI();
+    }
     requestAnimationFrame(loop);
 }
 
 // 起動
 setupUI();
-initNests();
-initFoods();
-initAgents();
+syncEditorColonies();
+renderRuleList();
+showSeed();
 // 初回の角度変換
 const angleInput = document.getElementById('sensorAngle') as HTMLInputElement;
 params.sensorAngle = parseFloat(angleInput.value) * (Math.PI / 180);
+loadScenarioFromHash();
 
-loop();
\ No newline at end of file
+requestAnimationFrame(loop);
@@ -0,0 +1,135 @@
+import { WIDTH, HEIGHT, isOnField } from './config';
+import type { Simulation } from './simulation';
+
+// 「ルート集中と他エリアからの撤退」(behavior_hypothesis.md) を定量化するための指標
+
+export interface MetricsSettings {
+    trailThreshold: number;      // この濃度を超えるセルを「道」とみなす
+    withdrawalThreshold: number; // 道外の個体割合がこれを下回ったら「撤退完了」とみなす (0.0 ~ 1.0)
+}
+
+export const DEFAULT_METRICS_SETTINGS: Readonly<MetricsSettings> = {
+    trailThreshold: 0.05,
+    withdrawalThreshold: 0.2
+};
+
+export interface TickMetrics {
+    tick: number;
+    onTrailFraction: number;     // 道の上にいる個体の割合 (巣の外にいる個体のうち)
+    offTrailOccupancy: number;   // 道の外にいる個体の割合 (巣の外にいる個体のうち)
+    gini: number;                // 密度マップのジニ係数 (0:一様 ~ 1:一点集中)
+    entropy: number;             // 密度マップの正規化エントロピー (1:一様 ~ 0:一点集中)
+    firstDiscoveryTick: number | null; // 最初に餌が見つかったティック
+    withdrawalTick: number | null;     // 発見後、道外の割合が閾値を下回った最初のティック (2種類のフェロモンを使うときだけ)
+    withdrawalJudged: boolean;         // 撤退を判定しているか (単一フェロモンモードでは判定しないので常に null)
+}
+
+export class MetricsTracker {
+    settings: MetricsSettings;
+    firstDiscoveryTick: number | null = null;
+    withdrawalTick: number | null = null;
+    latest: TickMetrics | null = null;
+    // ティックの初め (個体が匂いを落とす前) の、コロニーごとの道の層の写し
+    private trails: Float32Array[] = [];
+
+    constructor(settings: Partial<MetricsSettings> = {}) {
+        this.settings = { ...DEFAULT_METRICS_SETTINGS, ...settings };
+    }
+
+    reset() {
+        this.firstDiscoveryTick = null;
+        this.withdrawalTick = null;
+        this.latest = null;
+        this.trails = [];
+    }
+
+    // 蒸発と拡散の後、個体を更新する前に呼ぶ
+    // 道判定は自分のコロニーの「餌への道しるべ」(FOOD) で行う。単一フェロモンモードでは HOME と同一
+    // 個体の更新の後に今の層で調べると、自分がいま落とした匂いで必ず「道の上」になってしまうので、ここで写しておく
+    beginTick(sim: Simulation) {
+        const single = sim.params.singlePheromoneMode;
+        this.trails = sim.grids.map((grid, c) => {
+            const layer = single ? grid.homeGrid : grid.foodGrid;
+            const copy = this.trails[c]?.length === layer.length ? this.trails[c] : new Float32Array(layer.length);
+            copy.set(layer);
+            return copy;
+        });
+    }
+
+    // ステップ終了後 (全ての行動ルールの後) に呼ぶ
+    update(sim: Simulation): TickMetrics {
+        if (this.firstDiscoveryTick === null && sim.discoveries > 0) {
+            this.firstDiscoveryTick = sim.tick;
+        }
+
+        // 巣の外にいる個体だけを、移動した後の位置で数える (巣の中で待機している個体は数えない)
+        let onTrail = 0;
+        let total = 0;
+        for (const agent of sim.agents) {
+            if (!isOnField(agent.state)) continue;
+            total++;
+            const trail = this.trails[agent.colony];
+            const x = Math.floor(agent.x);
+            const y = Math.floor(agent.y);
+            if (!trail || x < 0 || x >= WIDTH || y < 0 || y >= HEIGHT) continue;
+            if (trail[y * WIDTH + x] > this.settings.trailThreshold) onTrail++;
+        }
+        const onTrailFraction = total > 0 ? onTrail / total : 0;
+        const offTrailOccupancy = total > 0 ? 1 - onTrailFraction : 0;
+
+        // 単一フェロモンモードでは巣の周りの帰り道も「道」になり、発見の直後に撤退完了となってしまうので判定しない
+        const withdrawalJudged = !sim.params.singlePheromoneMode;
+        if (this.withdrawalTick === null && this.firstDiscoveryTick !== null && withdrawalJudged &&
+            total > 0 && offTrailOccupancy < this.settings.withdrawalThreshold) {
+            this.withdrawalTick = sim.tick;
+        }
+
+        const counts: number[] = [];
+        for (const c of sim.spatial.counts) {
+            if (c > 0) counts.push(c);
+        }
+        const cellCount = sim.spatial.cellCount;
+
+        this.latest = {
+            tick: sim.tick,
+            onTrailFraction,
+            offTrailOccupancy,
+            gini: giniCoefficient(counts, cellCount),
+            entropy: normalizedEntropy(counts, cellCount),
+            firstDiscoveryTick: this.firstDiscoveryTick,
+            withdrawalTick: this.withdrawalTick,
+            withdrawalJudged
+        };
+        return this.latest;
+    }
+}
+
+// counts は空でないセルの個体数。残り (cellCount - counts.length) セルは 0 として扱う
+export function giniCoefficient(counts: number[], cellCount: number): number {
+    const sorted = [...counts].sort((a, b) => a - b);
+    let sum = 0;
+    let weighted = 0;
+    // 昇順に並べたとき、0 のセルが先頭に (cellCount - k) 個並ぶ
+    const offset = cellCount - sorted.length;
+    for (let i = 0; i < sorted.length; i++) {
+        const rank = offset + i + 1;
+        sum += sorted[i];
+        weighted += (2 * rank - cellCount - 1) * sorted[i];
+    }
+    if (sum === 0 || cellCount === 0) return 0;
+    return weighted / (cellCount * sum);
+}
+
+export function normalizedEntropy(counts: number[], cellCount: number): number {
+    let sum = 0;
+    for (const c of counts) sum += c;
+    if (sum === 0 || cellCount <= 1) return 0;
+
+    let h = 0;
+    for (const c of counts) {
+        if (c === 0) continue;
+        const p = c / sum;
+        h -= p * Math.log(p);
+    }
+    return h / Math.log(cellCount);
+}
@@ -0,0 +1,50 @@
+import type { Obstacle } from './world';
+
+// 障害物を1pxごとに塗りつぶした占有グリッド
+// センサー・移動・フェロモン塗布の壁判定に使う。障害物を変えたら rebuild すること
+export class OccupancyGrid {
+    readonly width: number;
+    readonly height: number;
+    readonly cells: Uint8Array; // 1 = 壁
+    private empty = true;       // 壁が1つもなければ判定を省略する
+
+    constructor(w: number, h: number) {
+        this.width = w;
+        this.height = h;
+        this.cells = new Uint8Array(w * h);
+    }
+
+    rebuild(obstacles: Obstacle[]) {
+        this.cells.fill(0);
+        for (const obs of obstacles) {
+            const x0 = Math.max(0, Math.floor(obs.x));
+            const y0 = Math.max(0, Math.floor(obs.y));
+            const x1 = Math.min(this.width, Math.ceil(obs.x + obs.w));
+            const y1 = Math.min(this.height, Math.ceil(obs.y + obs.h));
+            for (let y = y0; y < y1; y++) {
+                this.cells.fill(1, y * this.width + x0, y * this.width + Math.max(x0, x1));
+            }
+        }
+        this.empty = !this.cells.includes(1);
+    }
+
+    // 画面外は壁とみなさない (画面端は handleBoundaries で跳ね返す)
+    isBlocked(x: number, y: number): boolean {
+        if (this.empty || x < 0 || x >= this.width || y < 0 || y >= this.height) return false;
+        return this.cells[Math.floor(y) * this.width + Math.floor(x)] === 1;
+    }
+
+    // (x0, y0) から (x1, y1) までの線分が壁を横切らないか
+    // 1px 以下の刻みで調べるので、速く動いても薄い壁をすり抜けない
+    isPathClear(x0: number, y0: number, x1: number, y1: number): boolean {
+        if (this.empty) return true;
+        const dx = x1 - x0;
+        const dy = y1 - y0;
+        const steps = Math.ceil(Math.max(Math.abs(dx), Math.abs(dy)));
+        for (let i = 1; i <= steps; i++) {
+            const t = i / steps;
+            if (this.isBlocked(x0 + dx * t, y0 + dy * t)) return false;
+        }
+        return steps > 0 || !this.isBlocked(x1, y1);
+    }
+}
@@ -0,0 +1,274 @@
+import { DEFAULT_PARAMS, type SimParams } from './config';
+import { SCENARIO_PRESETS, findPreset, presetScenario } from './presets';
+import { Rng } from './rng';
+import { defaultRuleSettings, isRuleKey } from './rule-pipeline';
+import { applyScenario } from './scenario';
+import type { Simulation } from './simulation';
+import { createSimulation, overrideType, sweepSeeds, validateParamOverrides, validateSeeds, type ParamOverrides } from './sweep';
+
+// パラメータの自動探索: 選んだ SimParams の項目 (や行動ルールのパラメータ) を、目的関数が大きくなるように進化戦略で探す
+// 各候補は「シード × 配置」の全組み合わせを描画なしで実行し、目的関数の平均で比べる
+// (どの候補も同じシードと配置で比べるので、乱数の当たり外れで順位が入れ替わりにくい)
+
+// 探す範囲。step を指定するとその刻みに丸める (整数のパラメータは step: 1)
+export interface OptimizeRange {
+    min: number;
+    max: number;
+    step?: number;
+}
+
+// 1実行の集計 (個体数は代謝ルールで増減するので、実際に生きていた数で数える)
+export interface RunSummary {
+    initialPopulation: number; // 実行を始めたときの個体数 (全コロニーの合計)
+    agentTicks: number;        // 毎ティックの生きている個体数の合計
+}
+
+export interface Objective {
+    id: string;
+    label: string;
+    // 1実行の終わりに呼ぶ (大きいほど良い)
+    evaluate(sim: Simulation, run: RunSummary): number;
+}
+
+export const OBJECTIVES: readonly Objective[] = [
+    {
+        id: 'deliveredPerAgentTick',
+        label: '1体1ティックあたりの持ち帰り量',
+        evaluate: (sim, run) => totalDelivered(sim) / Math.max(1, run.agentTicks)
+    },
+    {
+        id: 'delivered',
+        label: '持ち帰った餌の量',
+        evaluate: sim => totalDelivered(sim)
+    },
+    {
+        // 代謝ルールを有効にして使う
+        id: 'survival',
+        label: '最初の個体数に対する最後に生きていた個体数の割合',
+        evaluate: (sim, run) => sim.population / Math.max(1, run.initialPopulation)
+    }
+];
+
+export function findObjective(id: string): Objective | null {
+    return OBJECTIVES.find(o => o.id === id) ?? null;
+}
+
+function totalDelivered(sim: Simulation): number {
+    return sim.nests.reduce((sum, n) => sum + n.delivered, 0);
+}
+
+// 配置: 'default' はシードから決まる既定の配置、'maze' は迷路、それ以外はプリセットの id
+// (プリセット自身が上書きするパラメータは探索中の値より優先される)
+export const LAYOUTS: readonly string[] = ['default', 'maze', ...SCENARIO_PRESETS.map(p => p.id)];
+
+export interface OptimizeSpec {
+    base?: ParamOverrides;                                     // 全実行に共通の上書き (探索の出発点にもなる)
+    params: Record<string, OptimizeRange>;                     // 探す項目と範囲 (キーは sweep と同じ。数値の項目だけ)
+    objective: string;                                         // OBJECTIVES の id
+    seeds: number | number[];                                  // 候補ごとに使うシード (sweep と同じ書き方)
+    layouts?: string[];                                        // 省略時は ['default']
+    ticks: number;                                             // 1実行あたりのティック数
+    generations: number;
+    population?: number;                                       // 1世代の候補数 (省略時は次元数から決める)
+    sigma?: number;                                            // 最初のステップ幅 (範囲を 0〜1 としたとき。省略時 0.3)
+    searchSeed?: number;                                       // 探索そのものの乱数のシード (省略時 1)
+}
+
+export interface Candidate {
+    params: ParamOverrides;
+    score: number;    // 全実行の平均
+    scores: number[]; // 実行ごと (layouts × seeds の順)
+}
+
+export interface GenerationLog {
+    generation: number;
+    evaluations: number; // ここまでに実行したシミュレーションの数
+    best: Candidate;     // この世代の最良
+    meanScore: number;   // この世代の平均
+    sigma: number;
+}
+
+export interface OptimizeResult {
+    objective: string;
+    best: Candidate; // 全世代を通しての最良
+    history: GenerationLog[];
+}
+
+// 不正な指定なら Error を投げる
+export function validateOptimizeSpec(spec: OptimizeSpec) {
+    if (!findObjective(spec.objective)) {
+        throw new Error(`Unknown objective: ${spec.objective} (${OBJECTIVES.map(o => o.id).join(', ')})`);
+    }
+    const keys = Object.keys(spec.params ?? {});
+    if (keys.length === 0) throw new Error('No parameters to optimise');
+    for (const key of keys) {
+        if (overrideType(key) !== 'number') throw new Error(`Not a numeric parameter: ${key}`);
+        const range = spec.params[key];
+        if (!(range.max > range.min)) throw new Error(`Invalid range for ${key}: ${range.min}..${range.max}`);
+        if (range.step !== undefined && !(range.step > 0)) throw new Error(`Invalid step for ${key}: ${range.step}`);
+    }
+    for (const layout of spec.layouts ?? []) {
+        if (!LAYOUTS.includes(layout)) throw new Error(`Unknown layout: ${layout} (${LAYOUTS.join(', ')})`);
+    }
+    validateSeeds(spec.seeds);
+    validateParamOverrides(spec.base);
+    if (!Number.isInteger(spec.ticks) || spec.ticks <= 0) throw new Error(`Invalid ticks: ${spec.ticks}`);
+    if (!(spec.generations > 0)) throw new Error(`Invalid generations: ${spec.generations}`);
+    if (spec.population !== undefined && !(spec.population >= 2)) throw new Error(`Invalid population: ${spec.population}`);
+}
+
+// 1つの候補を、全シード × 全配置で実行して採点する
+export function evaluateCandidate(params: ParamOverrides, spec: OptimizeSpec): Candidate {
+    const objective = findObjective(spec.objective)!;
+    const scores: number[] = [];
+    for (const layout of spec.layouts ?? ['default']) {
+        for (const seed of sweepSeeds(spec.seeds)) {
+            const sim = createSimulation({ ...spec.base, ...params }, seed);
+            if (layout === 'maze') {
+                sim.reset(seed, { maze: true });
+            } else if (layout !== 'default') {
+                applyScenario(sim, presetScenario(findPreset(layout)!, sim.params, seed));
+            }
+            const run: RunSummary = { initialPopulation: sim.population, agentTicks: 0 };
+            for (let t = 0; t < spec.ticks; t++) {
+                sim.step();
+                run.agentTicks += sim.population;
+            }
+            scores.push(objective.evaluate(sim, run));
+        }
+    }
+    return { params, score: scores.reduce((a, b) => a + b, 0) / scores.length, scores };
+}
+
+// 進化戦略 (重み付き組み換え + 累積ステップ幅適応。共分散は学習しない)
+// 探索は各項目の範囲を 0〜1 に直した空間で行い、範囲の外に出た候補は端に寄せる
+// onGeneration で世代ごとの経過を受け取れる
+export function runOptimization(spec: OptimizeSpec, onGeneration?: (log: GenerationLog) => void): OptimizeResult {
+    validateOptimizeSpec(spec);
+    const keys = Object.keys(spec.params);
+    const ranges = keys.map(k => spec.params[k]);
+    const n = keys.length;
+    const rng = new Rng(spec.searchSeed ?? 1);
+
+    const lambda = spec.population ?? 4 + Math.floor(3 * Math.log(n));
+    const mu = Math.floor(lambda / 2);
+    const rawWeights = Array.from({ length: mu }, (_, i) => Math.log(mu + 0.5) - Math.log(i + 1));
+    const weightSum = rawWeights.reduce((a, b) => a + b, 0);
+    const weights = rawWeights.map(w => w / weightSum);
+    const muEff = 1 / weights.reduce((sum, w) => sum + w * w, 0);
+    const cSigma = (muEff + 2) / (n + muEff + 5);
+    const dSigma = 1 + 2 * Math.max(0, Math.sqrt((muEff - 1) / (n + 1)) - 1) + cSigma;
+    const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n)); // 標準正規ベクトルの長さの期待値
+
+    // 出発点は base (なければ既定値) の値
+    let mean = keys.map((k, i) => clamp01((startValue(k, spec.base) - ranges[i].min) / (ranges[i].max - ranges[i].min)));
+    let sigma = spec.sigma ?? 0.3;
+    let pSigma = new Array<number>(n).fill(0);
+
+    const toParams = (u: number[]): ParamOverrides => {
+        const params: ParamOverrides = {};
+        keys.forEach((k, i) => {
+            const { min, max, step } = ranges[i];
+            let value = min + u[i] * (max - min);
+            if (step !== undefined) value = Math.min(max, min + Math.round((value - min) / step) * step);
+            params[k] = parseFloat(value.toPrecision(6));
+        });
+        return params;
+    };
+
+    let best: Candidate | null = null;
+    const history: GenerationLog[] = [];
+    let evaluations = 0;
+
+    for (let g = 0; g < spec.generations; g++) {
+        const offspring: { y: number[]; candidate: Candidate }[] = [];
+        for (let k = 0; k < lambda; k++) {
+            const u = mean.map(m => clamp01(m + sigma * gaussian(rng)));
+            // 端に寄せた分も含めた実際の一歩 (平均の更新に使う)
+            const y = u.map((v, i) => (v - mean[i]) / sigma);
+            const candidate = evaluateCandidate(toParams(u), spec);
+            evaluations += candidate.scores.length;
+            offspring.push({ y, candidate });
+        }
+        offspring.sort((a, b) => b.candidate.score - a.candidate.score);
+
+        const step = new Array<number>(n).fill(0);
+        for (let i = 0; i < mu; i++) {
+            for (let d = 0; d < n; d++) step[d] += weights[i] * offspring[i].y[d];
+        }
+        mean = mean.map((m, d) => clamp01(m + sigma * step[d]));
+        const c = Math.sqrt(cSigma * (2 - cSigma) * muEff);
+        pSigma = pSigma.map((p, d) => (1 - cSigma) * p + c * step[d]);
+        const pNorm = Math.sqrt(pSigma.reduce((sum, p) => sum + p * p, 0));
+        // 範囲全体より大きく跳んでも意味がないので上限を設ける
+        sigma = Math.min(1, sigma * Math.exp((cSigma / dSigma) * (pNorm / chiN - 1)));
+
+        const genBest = offspring[0].candidate;
+        if (!best || genBest.score > best.score) best = genBest;
+        const log: GenerationLog = {
+            generation: g,
+            evaluations,
+            best: genBest,
+            meanScore: offspring.reduce((sum, o) => sum + o.candidate.score, 0) / offspring.length,
+            sigma
+        };
+        history.push(log);
+        onGeneration?.(log);
+    }
+
+    return { objective: spec.objective, best: best!, history };
+}
+
+// 世代ごとの経過 (1行1世代、その世代の最良の候補の値を列として展開する)
+export function optimizationHistoryToCSV(spec: OptimizeSpec, result: OptimizeResult): string {
+    const keys = Object.keys(spec.params);
+    const lines = [['generation', 'evaluations', 'bestScore', 'meanScore', 'sigma', ...keys].join(',')];
+    for (const log of result.history) {
+        lines.push([
+            log.generation, log.evaluations, log.best.score, log.meanScore, log.sigma.toFixed(4),
+            ...keys.map(k => log.best.params[k])
+        ].join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+// 最良のパラメータのファイル形式 (UI の「最適化結果を反映」で読み込む)
+export interface BestParamsFile {
+    objective: string;
+    score: number;
+    params: ParamOverrides;
+}
+
+// 採点したときと同じ設定で読み込めるように、base の上書きも含める
+export function bestParamsFile(spec: OptimizeSpec, result: OptimizeResult): BestParamsFile {
+    return { objective: result.objective, score: result.best.score, params: { ...spec.base, ...result.best.params } };
+}
+
+// bestParamsFile の逆。不正な内容なら Error を投げる
+export function parseBestParams(text: string): ParamOverrides {
+    const data = JSON.parse(text) as Record<string, unknown> | null;
+    const raw = data?.params as Record<string, unknown> | undefined;
+    if (typeof raw !== 'object' || raw === null) throw new Error('File has no params');
+    validateParamOverrides(raw);
+    return raw as ParamOverrides;
+}
+
+// 探索の出発点 (base にあればその値、なければ SimParams やルールの既定値)
+function startValue(key: string, base: ParamOverrides | undefined): number {
+    if (base?.[key] !== undefined) return base[key] as number;
+    if (isRuleKey(key)) {
+        const [id, param] = key.split('.');
+        return defaultRuleSettings().find(r => r.id === id)!.params[param];
+    }
+    return DEFAULT_PARAMS[key as keyof SimParams] as number;
+}
+
+function clamp01(v: number): number {
+    return Math.min(1, Math.max(0, v));
+}
+
+// 標準正規乱数 (Box-Muller)
+function gaussian(rng: Rng): number {
+    const u = 1 - rng.next(); // log(0) を避ける
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng.next());
+}
@@ -0,0 +1,121 @@
+import { PheromoneType, type SimParams } from './config';
+import type { OccupancyGrid } from './occupancy';
+
+export class PheromoneGrid {
+    width: number;
+    height: number;
+    // 1次元配列で管理 (0.0 ~ pheromoneCap)
+    homeGrid: Float32Array;
+    foodGrid: Float32Array;
+    repelGrid: Float32Array; // 立入禁止 (単一フェロモンモードでも HOME にまとめない)
+    private params: SimParams;
+    private occupancy: OccupancyGrid | null;
+    private scratch: Float32Array; // 拡散計算用の作業領域
+
+    constructor(w: number, h: number, params: SimParams, occupancy: OccupancyGrid | null = null) {
+        this.width = w;
+        this.height = h;
+        this.homeGrid = new Float32Array(w * h);
+        this.foodGrid = new Float32Array(w * h);
+        this.repelGrid = new Float32Array(w * h);
+        this.scratch = new Float32Array(w * h);
+        this.params = params;
+        this.occupancy = occupancy;
+    }
+
+    // フェロモンを落とす
+    deposit(x: number, y: number, type: PheromoneType, amount: number) {
+        const idx = (Math.floor(y) * this.width) + Math.floor(x);
+        if (idx >= 0 && idx < this.homeGrid.length) {
+            // 壁の中には落とさない
+            if (this.occupancy && this.occupancy.cells[idx] === 1) return;
+
+            // 飽和値でキャップ
+            const cap = this.params.pheromoneCap;
+            if (type === PheromoneType.REPEL) {
+                this.repelGrid[idx] = Math.min(cap, this.repelGrid[idx] + amount);
+                return;
+            }
+
+            // 検証モード: 全て HOME として扱う
+            const effectiveType = this.params.singlePheromoneMode ? PheromoneType.HOME : type;
+            if (effectiveType === PheromoneType.HOME) {
+                this.homeGrid[idx] = Math.min(cap, this.homeGrid[idx] + amount);
+            } else {
+                this.foodGrid[idx] = Math.min(cap, this.foodGrid[idx] + amount);
+            }
+        }
+    }
+
+    // 指定位置のフェロモン濃度を取得
+    getLevel(x: number, y: number, type: PheromoneType): number {
+        // 境界チェック
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return -1;
+        const idx = (Math.floor(y) * this.width) + Math.floor(x);
+        if (type === PheromoneType.REPEL) return this.repelGrid[idx];
+
+        // 検証モード: 常に HOME から取得
+        const effectiveType = this.params.singlePheromoneMode ? PheromoneType.HOME : type;
+
+        return effectiveType === PheromoneType.HOME ? this.homeGrid[idx] : this.foodGrid[idx];
+    }
+
+    // 全体の蒸発処理 (種類ごとの残存率。立入禁止は evaporateRepellent で別に減らす)
+    evaporate(homeRate: number, foodRate: number) {
+        for (let i = 0; i < this.homeGrid.length; i++) {
+            this.homeGrid[i] *= homeRate;
+            this.foodGrid[i] *= foodRate;
+
+            // 完全に消えたら0にする（浮動小数点誤差対策）
+            if (this.homeGrid[i] < 0.001) this.homeGrid[i] = 0;
+            if (this.foodGrid[i] < 0.001) this.foodGrid[i] = 0;
+        }
+    }
+
+    evaporateRepellent(rate: number) {
+        for (let i = 0; i < this.repelGrid.length; i++) {
+            this.repelGrid[i] *= rate;
+            if (this.repelGrid[i] < 0.001) this.repelGrid[i] = 0;
+        }
+    }
+
+    // 隣接4セルへの拡散 (種類ごとの係数。立入禁止は落とした場所に留める)
+    diffuse(homeRate: number, foodRate: number) {
+        if (homeRate > 0) this.diffuseLayer(this.homeGrid, homeRate);
+        if (foodRate > 0) this.diffuseLayer(this.foodGrid, foodRate);
+    }
+
+    // 隣り合う2セルの間で、濃度差の rate/4 を移す (総量は保存される)
+    // 壁のセルと画面外とはやり取りしないので、匂いが壁を越えたり壁に溜まったりしない
+    private diffuseLayer(layer: Float32Array, rate: number) {
+        const w = this.width;
+        const h = this.height;
+        const k = Math.min(1, rate) / 4;
+        const blocked = this.occupancy?.cells;
+        const out = this.scratch;
+
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const i = y * w + x;
+                const v = layer[i];
+                if (blocked && blocked[i] === 1) {
+                    out[i] = 0;
+                    continue;
+                }
+                let flow = 0;
+                if (x > 0 && !(blocked && blocked[i - 1] === 1)) flow += layer[i - 1] - v;
+                if (x < w - 1 && !(blocked && blocked[i + 1] === 1)) flow += layer[i + 1] - v;
+                if (y > 0 && !(blocked && blocked[i - w] === 1)) flow += layer[i - w] - v;
+                if (y < h - 1 && !(blocked && blocked[i + w] === 1)) flow += layer[i + w] - v;
+                out[i] = v + k * flow;
+            }
+        }
+        layer.set(out);
+    }
+
+    reset() {
+        this.homeGrid.fill(0);
+        this.foodGrid.fill(0);
+        this.repelGrid.fill(0);
+    }
+}
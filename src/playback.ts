@@ -0,0 +1,44 @@
+// 再生制御: 画面のリフレッシュレートに関係なく、実時間1秒あたり一定のティック数で進める
+// 速度倍率を上げると1回の描画の間に複数ティック進め、途中の描画は省く
+
+export const BASE_TICKS_PER_SECOND = 60;
+// 1回の描画で進める上限 (重すぎて追いつけないときに処理落ちが雪だるま式に増えないように)
+const MAX_TICKS_PER_FRAME = 256;
+
+export class PlaybackClock {
+    paused = false;
+    speed = 1; // 速度倍率
+    private accumulator = 0;
+    private lastTime: number | null = null;
+    private pendingSteps = 0; // 一時停止中のコマ送りで進めるティック数
+
+    // 描画のたびに呼び、このフレームで進めるティック数を返す
+    advance(now: number): number {
+        const elapsed = this.lastTime === null ? 0 : (now - this.lastTime) / 1000;
+        this.lastTime = now;
+
+        if (this.paused) {
+            this.accumulator = 0;
+            const steps = Math.min(this.pendingSteps, MAX_TICKS_PER_FRAME);
+            this.pendingSteps -= steps;
+            return steps;
+        }
+
+        // タブが裏に回っていた間の時間は追いかけない
+        this.accumulator += Math.min(elapsed, 0.25) * BASE_TICKS_PER_SECOND * this.speed;
+        const ticks = Math.min(Math.floor(this.accumulator), MAX_TICKS_PER_FRAME);
+        this.accumulator = Math.min(this.accumulator - ticks, 1);
+        return ticks;
+    }
+
+    togglePause() {
+        this.paused = !this.paused;
+        this.pendingSteps = 0;
+    }
+
+    // 一時停止中に n ティックだけ進める
+    step(n: number) {
+        this.paused = true;
+        this.pendingSteps += Math.max(0, Math.floor(n));
+    }
+}
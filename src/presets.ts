@@ -0,0 +1,231 @@
+import { WIDTH, HEIGHT, isOnField, type SimParams } from './config';
+import { SCENARIO_VERSION, type FoodLayout, type NestLayout, type Scenario } from './scenario';
+import type { AgentBuffers } from './snapshot';
+import type { Obstacle } from './world';
+
+// 採餌モデルの定番の実験配置 (二重橋・T字迷路など)
+// それぞれ「領域 A に入った回数 / (A + B に入った回数)」で選択の偏りを測る
+// (その時点でいる個体の数で比べると、長い枝ほど滞在が長くなる分だけ多く数えてしまう)
+
+export interface RegionShare {
+    label: string;   // 例: 短い枝に入った割合
+    a: Obstacle[];   // 領域 A (矩形の和)
+    b: Obstacle[];
+}
+
+export interface ScenarioPreset {
+    id: string;
+    name: string;
+    description: string;
+    nests: NestLayout[];
+    foodSources: FoodLayout[];
+    obstacles: Obstacle[];
+    params: Partial<SimParams>; // 現在のパラメータに上書きする項目
+    measure: RegionShare;
+}
+
+const WALL_CELL = 10;
+
+// 通路 (矩形の和) 以外を壁で埋める。行ごとに連続したセルをまとめて1つの障害物にする
+function wallsOutside(corridors: Obstacle[]): Obstacle[] {
+    const walls: Obstacle[] = [];
+    const inCorridor = (cx: number, cy: number) => {
+        const x = cx * WALL_CELL + WALL_CELL / 2;
+        const y = cy * WALL_CELL + WALL_CELL / 2;
+        return corridors.some(c => x >= c.x && x < c.x + c.w && y >= c.y && y < c.y + c.h);
+    };
+    const cols = WIDTH / WALL_CELL;
+    for (let cy = 0; cy < HEIGHT / WALL_CELL; cy++) {
+        let start = -1;
+        for (let cx = 0; cx <= cols; cx++) {
+            const wall = cx < cols && !inCorridor(cx, cy);
+            if (wall && start < 0) start = cx;
+            if (!wall && start >= 0) {
+                walls.push({ x: start * WALL_CELL, y: cy * WALL_CELL, w: (cx - start) * WALL_CELL, h: WALL_CELL });
+                start = -1;
+            }
+        }
+    }
+    return walls;
+}
+
+const food = (x: number, y: number, r: number, quality: number = 1): FoodLayout =>
+    ({ x, y, r, capacity: 0, amount: 0, quality });
+
+// 巣と餌場を1つずつ置き、両方のフェロモンを使う (単一フェロモンモードでは道の向きが分からない)
+const SINGLE_SOURCE: Partial<SimParams> = {
+    nestCount: 1, foodCount: 1, colonyCount: 1, foodCapacity: 0, singlePheromoneMode: false
+};
+
+// 左右の部屋を結ぶ二重橋。short は中央の直線、long は下を大きく回る
+const BRIDGE_NEST_ROOM = { x: 20, y: 250, w: 100, h: 100 };
+const BRIDGE_FOOD_ROOM = { x: 480, y: 250, w: 100, h: 100 };
+const SHORT_BRANCH = { x: 120, y: 285, w: 360, h: 30 };
+const LONG_BRANCH = [
+    { x: 55, y: 350, w: 30, h: 170 },
+    { x: 55, y: 490, w: 490, h: 30 },
+    { x: 515, y: 350, w: 30, h: 170 }
+];
+// 対称な二重橋: 上下に同じ長さの枝
+const UPPER_BRANCH = [
+    { x: 55, y: 80, w: 30, h: 170 },
+    { x: 55, y: 80, w: 490, h: 30 },
+    { x: 515, y: 80, w: 30, h: 170 }
+];
+const LOWER_BRANCH = LONG_BRANCH;
+
+// T字迷路: 下の巣から縦の通路を上り、左右の腕に分かれる (餌は右の腕の先)
+const T_STEM = { x: 280, y: 170, w: 40, h: 350 };
+const T_NEST_ROOM = { x: 250, y: 500, w: 100, h: 80 };
+const T_LEFT_ARM = { x: 30, y: 130, w: 250, h: 40 };
+const T_RIGHT_ARM = { x: 320, y: 130, w: 250, h: 40 };
+const T_CROSS = { x: 280, y: 130, w: 40, h: 40 };
+const T_LEFT_ROOM = { x: 20, y: 90, w: 100, h: 120 };
+const T_RIGHT_ROOM = { x: 480, y: 90, w: 100, h: 120 };
+
+export const SCENARIO_PRESETS: readonly ScenarioPreset[] = [
+    {
+        id: 'double-bridge',
+        name: '二重橋 (短い枝と長い枝)',
+        description: '巣と餌場を長さの違う2本の枝でつなぐ (Goss ら)。短い枝に通行が集まるかを見る',
+        nests: [{ x: 70, y: 300, r: 20, colony: 0 }],
+        foodSources: [food(530, 300, 30)],
+        obstacles: wallsOutside([BRIDGE_NEST_ROOM, BRIDGE_FOOD_ROOM, SHORT_BRANCH, ...LONG_BRANCH]),
+        params: SINGLE_SOURCE,
+        measure: { label: '短い枝に入った割合', a: [SHORT_BRANCH], b: LONG_BRANCH }
+    },
+    {
+        id: 'double-bridge-equal',
+        name: '二重橋 (同じ長さ)',
+        description: '同じ長さの2本の枝 (Deneubourg ら)。どちらか一方に偏る (対称性の破れ) かを見る',
+        nests: [{ x: 70, y: 300, r: 20, colony: 0 }],
+        foodSources: [food(530, 300, 30)],
+        obstacles: wallsOutside([BRIDGE_NEST_ROOM, BRIDGE_FOOD_ROOM, ...UPPER_BRANCH, ...LOWER_BRANCH]),
+        params: SINGLE_SOURCE,
+        measure: { label: '上の枝に入った割合', a: UPPER_BRANCH, b: LOWER_BRANCH }
+    },
+    {
+        id: 't-maze',
+        name: 'T字迷路',
+        description: '分かれ道の右の腕の先にだけ餌がある。右の腕を選ぶ割合を見る',
+        nests: [{ x: 300, y: 540, r: 20, colony: 0 }],
+        foodSources: [food(530, 150, 30)],
+        obstacles: wallsOutside([T_STEM, T_NEST_ROOM, T_LEFT_ARM, T_RIGHT_ARM, T_CROSS, T_LEFT_ROOM, T_RIGHT_ROOM]),
+        params: SINGLE_SOURCE,
+        measure: { label: '右の腕 (餌あり) に入った割合', a: [T_RIGHT_ARM, T_RIGHT_ROOM], b: [T_LEFT_ARM, T_LEFT_ROOM] }
+    },
+    {
+        id: 'barrier',
+        name: '壁の向こうの餌',
+        description: '巣と餌場の間を壁がふさぎ、上の端だけが開いている。回り道を見つけて向こう側へ渡れるかを見る',
+        nests: [{ x: 120, y: 400, r: 20, colony: 0 }],
+        foodSources: [food(480, 400, 30)],
+        obstacles: [{ x: 290, y: 120, w: 20, h: HEIGHT - 120 }],
+        params: SINGLE_SOURCE,
+        measure: {
+            label: '壁の餌側に入った割合',
+            a: [{ x: 310, y: 0, w: WIDTH - 310, h: HEIGHT }],
+            b: [{ x: 0, y: 0, w: 290, h: HEIGHT }]
+        }
+    },
+    {
+        id: 'quality',
+        name: '等距離で質の違う餌場',
+        description: '巣から同じ距離に質の違う餌場が2つある (右が高品質)。高品質な側に集まるかを見る',
+        nests: [{ x: 300, y: 450, r: 20, colony: 0 }],
+        foodSources: [food(130, 200, 30, 0.5), food(470, 200, 30, 1)],
+        obstacles: [],
+        params: { ...SINGLE_SOURCE, foodCount: 2 },
+        measure: {
+            label: '高品質な側 (右) に入った割合',
+            a: [{ x: 300, y: 0, w: 300, h: 400 }],
+            b: [{ x: 0, y: 0, w: 300, h: 400 }]
+        }
+    }
+];
+
+export function findPreset(id: string): ScenarioPreset | null {
+    return SCENARIO_PRESETS.find(p => p.id === id) ?? null;
+}
+
+// 現在のパラメータに配置と上書き項目を重ねたシナリオ
+export function presetScenario(preset: ScenarioPreset, params: SimParams, seed: number): Scenario {
+    return {
+        version: SCENARIO_VERSION,
+        params: { ...params, ...preset.params },
+        seed,
+        nests: preset.nests.map(n => ({ ...n })),
+        foodSources: preset.foodSources.map(f => ({ ...f })),
+        obstacles: preset.obstacles.map(o => ({ ...o }))
+    };
+}
+
+function inRegion(rects: Obstacle[], x: number, y: number): boolean {
+    return rects.some(r => x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h);
+}
+
+const OUTSIDE = 0;
+const IN_A = 1;
+const IN_B = 2;
+
+// プリセットの計測値の時系列
+// 記録のたびに、前の記録のときと違う領域 (A か B) にいる巣の外の個体を「入った」として数える
+export class PresetTracker {
+    rows: { tick: number; a: number; b: number }[] = [];
+    // 個体ごとの前の記録のときの領域 (添字 = 個体の行)
+    private regions = new Uint8Array(0);
+
+    constructor(readonly preset: ScenarioPreset) {}
+
+    record(tick: number, agents: AgentBuffers) {
+        // ティックが巻き戻った (やり直した) ら記録し直す
+        const last = this.rows[this.rows.length - 1];
+        if (last && tick <= last.tick) {
+            this.rows = [];
+            this.regions = new Uint8Array(0);
+        }
+        if (this.regions.length < agents.count) {
+            const grown = new Uint8Array(agents.count);
+            grown.set(this.regions);
+            this.regions = grown;
+        }
+
+        const m = this.preset.measure;
+        let a = 0;
+        let b = 0;
+        for (let i = 0; i < agents.count; i++) {
+            let region = OUTSIDE;
+            if (isOnField(agents.state[i])) {
+                const x = agents.x[i];
+                const y = agents.y[i];
+                if (inRegion(m.a, x, y)) region = IN_A;
+                else if (inRegion(m.b, x, y)) region = IN_B;
+            }
+            if (region !== this.regions[i]) {
+                if (region === IN_A) a++;
+                else if (region === IN_B) b++;
+                this.regions[i] = region;
+            }
+        }
+        this.rows.push({ tick, a, b });
+    }
+
+    // 直近 windowTicks ティックに A か B に入った回数のうち、A に入った割合 (どちらにも入っていなければ null)
+    recentShare(windowTicks: number): number | null {
+        const last = this.rows[this.rows.length - 1];
+        if (!last) return null;
+        let a = 0;
+        let b = 0;
+        for (let i = this.rows.length - 1; i >= 0 && this.rows[i].tick > last.tick - windowTicks; i--) {
+            a += this.rows[i].a;
+            b += this.rows[i].b;
+        }
+        return a + b > 0 ? a / (a + b) : null;
+    }
+
+    toCSV(seed: number): string {
+        const lines = [`# preset=${this.preset.id}`, `# measure=${this.preset.measure.label}`, `# seed=${seed}`, 'tick,enteredA,enteredB'];
+        for (const row of this.rows) lines.push(`${row.tick},${row.a},${row.b}`);
+        return lines.join('\n') + '\n';
+    }
+}
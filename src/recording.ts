@@ -0,0 +1,321 @@
+import { WIDTH, HEIGHT, SPATIAL_CELL_SIZE, AgentState, isOnField } from './config';
+import type { Scenario } from './scenario';
+import type { ColonyStats, SimStats } from './simulation';
+import type { FrameSnapshot, PheromoneLayers } from './snapshot';
+import type { FoodSource, Nest, Obstacle } from './world';
+
+// 実行の記録: ティックごとのエージェントの位置と状態 + 一定間隔のフェロモンのキーフレーム
+// 位置は 0.01px 単位の Uint16、状態類は1バイトに詰めて、1体1ティック5バイトに抑える
+// 統計のうち個体の状態から数え直せないもの (累計や餌の量) だけを、ティックごとに小さな数値の列で持つ
+
+export const RECORDING_VERSION = 4;
+const POSITION_SCALE = 100; // 600px * 100 = 60000 < 65536
+
+export interface RecordedTick {
+    tick: number;
+    count: number;
+    xy: Uint16Array;   // x0, y0, x1, y1, ...
+    flags: Uint8Array; // state (3bit) | excitedLevel (2bit) | colony (2bit)  (v2 までは state が 2bit)
+    counters: Float64Array; // packCounters の並び (v3 までは統計をまるごとヘッダに持っていた)
+}
+
+export interface Keyframe {
+    tick: number;
+    scale: number; // 量子化前の最大値 (255 がこの値に対応する)
+    layers: { home: Uint8Array; food: Uint8Array; repel: Uint8Array }[];
+    nests: Nest[];
+    foodSources: FoodSource[];
+    obstacles: Obstacle[];
+}
+
+export class RunRecording {
+    ticks: RecordedTick[] = [];
+    keyframes: Keyframe[] = [];
+    active = true; // false なら capture しても記録しない
+    bytes = 0;     // 型付き配列の合計サイズ (統計の数値の列も含む)
+    // 再生中は同じキーフレームを何度も使うので、戻したフェロモンを覚えておく
+    private decodedKey: Keyframe | null = null;
+    private decodedLayers: PheromoneLayers[] = [];
+
+    constructor(
+        readonly scenario: Scenario,        // 記録を始めたときの配置とパラメータ
+        readonly keyframeInterval: number = 300,
+        readonly maxBytes: number = 256 * 1024 * 1024 // これを超えたら記録を止める (メモリ保護)
+    ) {}
+
+    get full(): boolean {
+        return this.bytes >= this.maxBytes;
+    }
+
+    capture(frame: FrameSnapshot) {
+        if (!this.active || this.full) return;
+        const tick = frame.stats.tick;
+        // 途中でリセットされたらそこから先は別の実行なので記録しない
+        const last = this.ticks[this.ticks.length - 1];
+        if (last && tick <= last.tick) {
+            this.active = false;
+            return;
+        }
+
+        const a = frame.agents;
+        const xy = new Uint16Array(a.count * 2);
+        const flags = new Uint8Array(a.count);
+        for (let i = 0; i < a.count; i++) {
+            xy[i * 2] = Math.round(a.x[i] * POSITION_SCALE);
+            xy[i * 2 + 1] = Math.round(a.y[i] * POSITION_SCALE);
+            flags[i] = (a.state[i] & 7) | ((a.excitedLevel[i] & 3) << 3) | ((a.colony[i] & 3) << 5);
+        }
+        const counters = packCounters(frame.stats);
+        this.ticks.push({ tick, count: a.count, xy, flags, counters });
+        this.bytes += xy.byteLength + flags.byteLength + counters.byteLength;
+
+        const lastKey = this.keyframes[this.keyframes.length - 1];
+        if (!lastKey || tick - lastKey.tick >= this.keyframeInterval) {
+            const key = captureKeyframe(tick, frame);
+            this.keyframes.push(key);
+            this.bytes += key.layers.length * WIDTH * HEIGHT * 3;
+        }
+    }
+
+    // ticks[index] の時点を描画用のフレームに戻す (フェロモンは直前のキーフレーム)
+    frameAt(index: number): FrameSnapshot {
+        const rec = this.ticks[index];
+        const key = this.keyframeAt(rec.tick);
+
+        const x = new Float32Array(rec.count);
+        const y = new Float32Array(rec.count);
+        const state = new Uint8Array(rec.count);
+        const excitedLevel = new Uint8Array(rec.count);
+        const colony = new Uint8Array(rec.count);
+        const cols = Math.ceil(WIDTH / SPATIAL_CELL_SIZE);
+        const density = new Int32Array(cols * Math.ceil(HEIGHT / SPATIAL_CELL_SIZE));
+        for (let i = 0; i < rec.count; i++) {
+            x[i] = rec.xy[i * 2] / POSITION_SCALE;
+            y[i] = rec.xy[i * 2 + 1] / POSITION_SCALE;
+            state[i] = rec.flags[i] & 7;
+            excitedLevel[i] = (rec.flags[i] >> 3) & 3;
+            colony[i] = (rec.flags[i] >> 5) & 3;
+            if (isOnField(state[i])) { // 巣の中と死んだ個体は密度に数えない
+                density[Math.floor(y[i] / SPATIAL_CELL_SIZE) * cols + Math.floor(x[i] / SPATIAL_CELL_SIZE)]++;
+            }
+        }
+
+        return {
+            stats: unpackStats(rec.tick, rec.counters, state, excitedLevel, colony),
+            metrics: null,
+            cascades: null,
+            agents: { count: rec.count, x, y, state, excitedLevel, colony },
+            pheromones: this.decodeLayers(key),
+            density,
+            nests: key?.nests ?? [],
+            foodSources: key?.foodSources ?? [],
+            obstacles: key?.obstacles ?? [],
+            inspected: null
+        };
+    }
+
+    private decodeLayers(key: Keyframe | null): PheromoneLayers[] {
+        if (!key) return [];
+        if (key !== this.decodedKey) {
+            this.decodedKey = key;
+            this.decodedLayers = key.layers.map(l => ({
+                home: dequantize(l.home, key.scale),
+                food: dequantize(l.food, key.scale),
+                repel: dequantize(l.repel, key.scale)
+            }));
+        }
+        return this.decodedLayers;
+    }
+
+    private keyframeAt(tick: number): Keyframe | null {
+        let found: Keyframe | null = null;
+        for (const key of this.keyframes) {
+            if (key.tick > tick) break;
+            found = key;
+        }
+        return found ?? this.keyframes[0] ?? null;
+    }
+
+    // --- ファイル形式 ---
+    // [ヘッダ JSON の長さ (Uint32)] [ヘッダ JSON] [各ティックの xy, flags, counters] [各キーフレームの home, food, repel]
+    // v1 には repel がない。v3 までは counters がなく、統計をヘッダの ticks に持っていた
+    // 型付き配列はリトルエンディアンのまま書き出す
+
+    serialize(): Uint8Array<ArrayBuffer> {
+        const header = new TextEncoder().encode(JSON.stringify({
+            version: RECORDING_VERSION,
+            width: WIDTH,
+            height: HEIGHT,
+            keyframeInterval: this.keyframeInterval,
+            scenario: this.scenario,
+            ticks: this.ticks.map(t => ({ tick: t.tick, count: t.count, counters: t.counters.length })),
+            keyframes: this.keyframes.map(k => ({
+                tick: k.tick, scale: k.scale, colonies: k.layers.length,
+                nests: k.nests, foodSources: k.foodSources, obstacles: k.obstacles
+            }))
+        }));
+
+        const chunks: Uint8Array[] = [];
+        for (const t of this.ticks) chunks.push(bytesOf(t.xy), t.flags, bytesOf(t.counters));
+        for (const k of this.keyframes) {
+            for (const l of k.layers) chunks.push(l.home, l.food, l.repel);
+        }
+
+        const total = 4 + header.length + chunks.reduce((sum, c) => sum + c.length, 0);
+        const out = new Uint8Array(total);
+        new DataView(out.buffer).setUint32(0, header.length, true);
+        out.set(header, 4);
+        let offset = 4 + header.length;
+        for (const c of chunks) {
+            out.set(c, offset);
+            offset += c.length;
+        }
+        return out;
+    }
+}
+
+// serialize の逆。不正な内容なら Error を投げる
+export function parseRecording(bytes: Uint8Array): RunRecording {
+    if (bytes.length < 4) throw new Error('Recording is too short');
+    const headerLength = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0, true);
+    const header = JSON.parse(new TextDecoder().decode(bytes.subarray(4, 4 + headerLength)));
+    if (!(header.version >= 1 && header.version <= RECORDING_VERSION)) throw new Error(`Unsupported recording version: ${header.version}`);
+    if (header.width !== WIDTH || header.height !== HEIGHT) throw new Error('Recording has a different world size');
+
+    let offset = 4 + headerLength;
+    const take = (length: number): Uint8Array => {
+        if (offset + length > bytes.length) throw new Error('Recording is truncated');
+        // slice で複製して、Uint16Array に読み替えられる位置 (先頭) に揃える
+        const chunk = bytes.slice(offset, offset + length);
+        offset += length;
+        return chunk;
+    };
+
+    const recording = new RunRecording(header.scenario, header.keyframeInterval);
+    for (const t of header.ticks) {
+        const xy = new Uint16Array(take(t.count * 4).buffer);
+        const flags = take(t.count);
+        if (header.version < 3) {
+            // state を 3bit に広げた並びに詰め直す
+            for (let i = 0; i < flags.length; i++) flags[i] = (flags[i] & 3) | ((flags[i] & 0x3c) << 1);
+        }
+        let counters: Float64Array;
+        if (header.version >= 4) {
+            counters = new Float64Array(take(t.counters * 8).buffer);
+        } else {
+            // v2 までは代謝の統計がない
+            const stats: SimStats = header.version < 3
+                ? { ...t.stats, deaths: 0, births: 0, colonies: t.stats.colonies.map((c: ColonyStats) => ({ ...c, stored: 0 })) }
+                : t.stats;
+            counters = packCounters(stats);
+        }
+        recording.ticks.push({ tick: t.tick, count: t.count, xy, flags, counters });
+        recording.bytes += xy.byteLength + flags.byteLength + counters.byteLength;
+    }
+    const cells = WIDTH * HEIGHT;
+    for (const k of header.keyframes) {
+        const layers = Array.from({ length: k.colonies }, () => ({
+            home: take(cells),
+            food: take(cells),
+            repel: header.version >= 2 ? take(cells) : new Uint8Array(cells)
+        }));
+        recording.bytes += layers.length * cells * 3;
+        recording.keyframes.push({
+            tick: k.tick, scale: k.scale, layers, nests: k.nests, foodSources: k.foodSources, obstacles: k.obstacles
+        });
+    }
+    recording.active = false;
+    return recording;
+}
+
+// 個体の状態から数え直せない統計を数値の列に詰める
+// [giveUps, deaths, births, foodRemaining, 巣の数, コロニー数, 巣ごとの持ち帰り..., (コロニーごとの持ち帰り, 貯蔵)...]
+const COUNTER_HEADER = 6;
+
+export function packCounters(stats: SimStats): Float64Array {
+    const nests = stats.deliveriesPerNest;
+    const colonies = stats.colonies;
+    const out = new Float64Array(COUNTER_HEADER + nests.length + colonies.length * 2);
+    out.set([stats.giveUps, stats.deaths, stats.births, stats.foodRemaining, nests.length, colonies.length]);
+    out.set(nests, COUNTER_HEADER);
+    colonies.forEach((c, i) => {
+        out[COUNTER_HEADER + nests.length + i * 2] = c.delivered;
+        out[COUNTER_HEADER + nests.length + i * 2 + 1] = c.stored;
+    });
+    return out;
+}
+
+// packCounters の逆。個体の数の統計は記録した状態から数え直す (Simulation.getStats と同じ数え方)
+export function unpackStats(
+    tick: number, counters: Float64Array, state: Uint8Array, excitedLevel: Uint8Array, colony: Uint8Array
+): SimStats {
+    const nestCount = counters[4];
+    const colonyCount = counters[5];
+    const colonies: ColonyStats[] = Array.from({ length: colonyCount }, (_, c) => ({
+        total: 0,
+        outside: 0,
+        returning: 0,
+        delivered: counters[COUNTER_HEADER + nestCount + c * 2],
+        stored: counters[COUNTER_HEADER + nestCount + c * 2 + 1]
+    }));
+    const stats: SimStats = {
+        tick, total: 0, foraging: 0, returning: 0, returningHome: 0, inNest: 0, excited2: 0, excited1: 0,
+        giveUps: counters[0], deaths: counters[1], births: counters[2], foodRemaining: counters[3],
+        deliveriesPerNest: Array.from(counters.subarray(COUNTER_HEADER, COUNTER_HEADER + nestCount)),
+        colonies
+    };
+    for (let i = 0; i < state.length; i++) {
+        const s = state[i];
+        if (s === AgentState.DEAD) continue;
+        stats.total++;
+        if (s === AgentState.FORAGING) stats.foraging++;
+        else if (s === AgentState.RETURNING) stats.returning++;
+        else if (s === AgentState.RETURNING_HOME) stats.returningHome++;
+        else if (s === AgentState.IN_NEST) stats.inNest++;
+        const c = colonies[colony[i]];
+        if (c) {
+            c.total++;
+            if (isOnField(s)) c.outside++;
+            if (s === AgentState.RETURNING) c.returning++;
+        }
+        if (excitedLevel[i] === 2) stats.excited2++;
+        else if (excitedLevel[i] === 1) stats.excited1++;
+    }
+    return stats;
+}
+
+function captureKeyframe(tick: number, frame: FrameSnapshot): Keyframe {
+    let scale = 0;
+    for (const l of frame.pheromones) {
+        for (let i = 0; i < l.home.length; i++) scale = Math.max(scale, l.home[i], l.food[i], l.repel[i]);
+    }
+    return {
+        tick,
+        scale,
+        layers: frame.pheromones.map(l => ({
+            home: quantize(l.home, scale),
+            food: quantize(l.food, scale),
+            repel: quantize(l.repel, scale)
+        })),
+        nests: frame.nests.map(n => ({ ...n })),
+        foodSources: frame.foodSources.map(f => ({ ...f })),
+        obstacles: frame.obstacles.map(o => ({ ...o }))
+    };
+}
+
+function quantize(values: Float32Array, scale: number): Uint8Array {
+    const out = new Uint8Array(values.length);
+    if (scale <= 0) return out;
+    for (let i = 0; i < values.length; i++) out[i] = Math.round((values[i] / scale) * 255);
+    return out;
+}
+
+function dequantize(values: Uint8Array, scale: number): Float32Array {
+    const out = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) out[i] = (values[i] / 255) * scale;
+    return out;
+}
+
+function bytesOf(arr: Uint16Array | Float64Array): Uint8Array {
+    return new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength);
+}
@@ -0,0 +1,34 @@
+// シード付き疑似乱数生成器 (mulberry32)
+// 同じシードからは常に同じ乱数列が得られるので、実行を再現できる
+export class Rng {
+    readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    // [0, 1) の一様乱数 (Math.random() の代わり)
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+// シード未指定時に使う新しいシード
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// 同じシードから、別の用途に使う独立した乱数列のシードを作る (stream ごとに別の値)
+// 配置の生成と実行で乱数列を分けると、配置を何回引いても実行はシードだけで決まる
+export function deriveSeed(seed: number, stream: number): number {
+    let t = (seed ^ Math.imul(stream + 1, 0x9E3779B9)) >>> 0;
+    t = Math.imul(t ^ (t >>> 16), 0x85EBCA6B);
+    t = Math.imul(t ^ (t >>> 13), 0xC2B2AE35);
+    return (t ^ (t >>> 16)) >>> 0;
+}
@@ -0,0 +1,227 @@
+import { isOnField } from './config';
+import type { Agent } from './agent';
+import type { Simulation } from './simulation';
+import { BUILTIN_RULES } from './rules';
+
+// 個体の行動規則を「ルール」の列として組み立てる
+// 1ティックの間、巣の外にいる個体ごとに、有効なルールを並び順に update する
+// 新しい仮説は src/rules/ にルールを1つ書いて registerRule すれば試せる (Agent を書き換えなくてよい)
+
+// ルール固有の数値パラメータ (UI ではスライダーになる)
+export interface RuleParam {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    value: number; // 初期値
+}
+
+// 1個体を更新する間、ルールの間で受け渡す値 (個体ごとに作り直さず使い回す)
+export interface AgentStep {
+    sim: Simulation;
+    cell: number;                   // ステップ開始時にいた空間ハッシュのセル
+    params: Record<string, number>; // 実行中のルール自身のパラメータ
+    speedFactor: number;            // 移動の速さに掛ける係数 (移動ルールより前のルールが下げる)
+    prevX: number;                  // 移動前の位置 (移動ルールが書く)
+    prevY: number;
+    repellent: Record<string, number> | null; // 立入禁止ルールのパラメータ (有効なときだけ。感知と塗布で使う)
+}
+
+export interface BehaviorRule {
+    id: string;
+    name: string;
+    description: string;
+    params?: readonly RuleParam[];
+    enabledByDefault?: boolean; // 省略時は有効
+    // ティックの初めに1回 (個体の更新より前)
+    beforeTick?(sim: Simulation, params: Record<string, number>): void;
+    // 巣の外にいる個体ごとに1回
+    update(agent: Agent, step: AgentStep): void;
+}
+
+// ルールの並び・有効/無効・パラメータ (シナリオに保存し、Worker にも送る)
+export interface RuleSetting {
+    id: string;
+    enabled: boolean;
+    params: Record<string, number>;
+}
+
+const registry = new Map<string, BehaviorRule>();
+
+export function registerRule(rule: BehaviorRule) {
+    if (registry.has(rule.id)) throw new Error(`Rule already registered: ${rule.id}`);
+    registry.set(rule.id, rule);
+}
+
+export function getRule(id: string): BehaviorRule | null {
+    return registry.get(id) ?? null;
+}
+
+// 登録順 (= 既定の実行順)
+export function registeredRules(): BehaviorRule[] {
+    return [...registry.values()];
+}
+
+for (const rule of BUILTIN_RULES) registerRule(rule);
+
+function defaultSetting(rule: BehaviorRule): RuleSetting {
+    const params: Record<string, number> = {};
+    for (const p of rule.params ?? []) params[p.key] = p.value;
+    return { id: rule.id, enabled: rule.enabledByDefault ?? true, params };
+}
+
+export function defaultRuleSettings(): RuleSetting[] {
+    return registeredRules().map(defaultSetting);
+}
+
+// 知らないルールは捨て、載っていない登録済みのルールは既定の設定で末尾に足す
+// (パラメータも同じく、知らない項目は捨てて足りない項目は初期値で補う)
+export function normalizeRuleSettings(settings: readonly RuleSetting[]): RuleSetting[] {
+    const result: RuleSetting[] = [];
+    for (const s of settings) {
+        const rule = getRule(s.id);
+        if (!rule || result.some(r => r.id === s.id)) continue;
+        const setting = defaultSetting(rule);
+        setting.enabled = s.enabled;
+        for (const key of Object.keys(setting.params)) {
+            if (typeof s.params[key] === 'number') setting.params[key] = s.params[key];
+        }
+        result.push(setting);
+    }
+    for (const rule of registeredRules()) {
+        if (!result.some(r => r.id === rule.id)) result.push(defaultSetting(rule));
+    }
+    return result;
+}
+
+// 1件を検証する。不正な内容なら Error を投げる (知らないルールかどうかは normalizeRuleSettings で扱う)
+export function readRuleSetting(value: unknown): RuleSetting {
+    const data = value as Record<string, unknown> | null;
+    if (typeof data !== 'object' || data === null) throw new Error('Rule setting must be an object');
+    if (typeof data.id !== 'string') throw new Error('Rule setting needs an id');
+    if (typeof data.enabled !== 'boolean') throw new Error(`Rule ${data.id} needs enabled`);
+    const params: Record<string, number> = {};
+    const raw = data.params as Record<string, unknown> | undefined;
+    if (raw !== undefined && (typeof raw !== 'object' || raw === null)) throw new Error(`Invalid params for rule ${data.id}`);
+    for (const [key, v] of Object.entries(raw ?? {})) {
+        if (typeof v !== 'number' || !isFinite(v)) throw new Error(`Invalid ${data.id}.${key}`);
+        params[key] = v;
+    }
+    return { id: data.id, enabled: data.enabled, params };
+}
+
+interface ActiveRule {
+    rule: BehaviorRule;
+    params: Record<string, number>;
+}
+
+// "id.key" (ルールのパラメータ) または "id.enabled" (有効/無効) の形の名前か
+// スイープや CLI で SimParams の項目と並べて指定するときに使う
+export function isRuleKey(name: string): boolean {
+    return name.includes('.');
+}
+
+// "id.key" / "id.enabled" の値の型。知らないルールや項目なら Error を投げる
+export function ruleValueType(name: string): 'number' | 'boolean' {
+    const [id, key] = name.split('.');
+    const rule = getRule(id);
+    if (rule && key === 'enabled') return 'boolean';
+    if (!rule || !(rule.params ?? []).some(p => p.key === key)) throw new Error(`Unknown rule parameter: ${name}`);
+    return 'number';
+}
+
+// settings に "id.key" / "id.enabled" の値を書き込む。知らない項目や型の違う値なら Error を投げる
+export function setRuleValue(settings: RuleSetting[], name: string, value: unknown) {
+    const type = ruleValueType(name);
+    if (typeof value !== type || (type === 'number' && !isFinite(value as number))) {
+        throw new Error(`Invalid value for ${name}: ${value}`);
+    }
+    const [id, key] = name.split('.');
+    const setting = settings.find(s => s.id === id);
+    if (!setting) throw new Error(`Unknown rule parameter: ${name}`);
+    if (key === 'enabled') setting.enabled = value as boolean;
+    else setting.params[key] = value as number;
+}
+
+// 全てのルールの "id.enabled" と "id.key" の値 (並び順。CSV などに実行時の設定を書き込むときに使う)
+export function ruleSettingEntries(settings: readonly RuleSetting[]): [string, number | boolean][] {
+    const entries: [string, number | boolean][] = [];
+    for (const s of settings) {
+        entries.push([`${s.id}.enabled`, s.enabled]);
+        for (const [key, value] of Object.entries(s.params)) entries.push([`${s.id}.${key}`, value]);
+    }
+    return entries;
+}
+
+// settings の "id.key" / "id.enabled" の値 (知らないルールや項目なら undefined)
+export function getRuleValue(settings: readonly RuleSetting[], name: string): number | boolean | undefined {
+    const [id, key] = name.split('.');
+    const setting = settings.find(s => s.id === id);
+    if (!setting) return undefined;
+    return key === 'enabled' ? setting.enabled : setting.params[key];
+}
+
+// Simulation が持つルールの列
+// settings は UI から直接書き換えてよい (ティックの初めに読み直す)
+export class RulePipeline {
+    settings: RuleSetting[] = defaultRuleSettings();
+    private active: ActiveRule[] = [];
+    private readonly step: AgentStep;
+
+    constructor(sim: Simulation) {
+        this.step = { sim, cell: 0, params: {}, speedFactor: 1, prevX: 0, prevY: 0, repellent: null };
+    }
+
+    setSettings(settings: readonly RuleSetting[]) {
+        this.settings = normalizeRuleSettings(settings);
+    }
+
+    isEnabled(id: string): boolean {
+        return this.settings.some(s => s.id === id && s.enabled);
+    }
+
+    // 有効/無効を問わず、設定上のパラメータ (登録されていないルールなら null)
+    paramsOf(id: string): Record<string, number> | null {
+        return this.settings.find(s => s.id === id)?.params ?? null;
+    }
+
+    setEnabled(id: string, enabled: boolean) {
+        const setting = this.settings.find(s => s.id === id);
+        if (setting) setting.enabled = enabled;
+    }
+
+    // 並び順を delta だけずらす (範囲外には動かさない)
+    move(id: string, delta: number) {
+        const i = this.settings.findIndex(s => s.id === id);
+        const j = i + delta;
+        if (i < 0 || j < 0 || j >= this.settings.length) return;
+        const [setting] = this.settings.splice(i, 1);
+        this.settings.splice(j, 0, setting);
+    }
+
+    // ティックの初めに有効なルールを並べ直し、beforeTick を呼ぶ
+    beforeTick(sim: Simulation) {
+        this.active = [];
+        for (const setting of this.settings) {
+            const rule = setting.enabled ? getRule(setting.id) : null;
+            if (rule) this.active.push({ rule, params: setting.params });
+        }
+        for (const { rule, params } of this.active) rule.beforeTick?.(sim, params);
+    }
+
+    update(agent: Agent, cell: number) {
+        const step = this.step;
+        step.cell = cell;
+        step.speedFactor = 1;
+        step.prevX = agent.x;
+        step.prevY = agent.y;
+        step.repellent = null;
+        for (const { rule, params } of this.active) {
+            step.params = params;
+            rule.update(agent, step);
+            // 巣に入った (または死んだ) 個体はこのティックはもう動かない
+            if (!isOnField(agent.state)) return;
+        }
+    }
+}
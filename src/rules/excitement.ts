@@ -0,0 +1,114 @@
+import { MAX_CASCADE_LEVELS } from '../config';
+import type { Agent } from '../agent';
+import type { BehaviorRule } from '../rule-pipeline';
+import type { Simulation } from '../simulation';
+import { isSource } from '../spatial';
+
+// 興奮の減衰 (レベル1, 2ともに)
+export const excitedDecayRule: BehaviorRule = {
+    id: 'excitedDecay',
+    name: '興奮の減衰',
+    description: '興奮している個体が 1ティックあたり「減衰率」の確率で平常に戻る',
+    update(agent, { sim }) {
+        if (agent.excitedLevel > 0 && sim.params.excitedDecayRate > 0) {
+            if (sim.rng.next() < sim.params.excitedDecayRate) {
+                agent.excitedLevel = 0;
+            }
+        }
+    }
+};
+
+// 接触による興奮伝播 (同じコロニーの発信源からのみ)
+// 発信源の段数が深いほど伝わりにくくなる (伝播確率 × 減衰係数^段数)
+export const contagionRule: BehaviorRule = {
+    id: 'contagion',
+    name: '接触による興奮伝播',
+    description: '接触半径内の興奮個体から「伝播確率」で興奮がうつる。接触数が閾値に満たなければうつらない',
+    params: [
+        { key: 'contactRadius', label: '接触半径 (px。0 なら同じセルだけ)', min: 0, max: 40, step: 1, value: 0 },
+        { key: 'cascadeLevels', label: '伝わる段数 (1 なら発見個体からの1段だけ)', min: 1, max: 8, step: 1, value: 1 },
+        { key: 'cascadeAttenuation', label: '1段ごとの伝播確率の減衰', min: 0, max: 1, step: 0.05, value: 0.5 },
+        { key: 'contactThreshold', label: '伝播に必要な同時接触数 (閾値反応)', min: 1, max: 6, step: 1, value: 1 }
+    ],
+    beforeTick(sim, params) {
+        sim.spatial.rebuildSources(sim.store, cascadeLevelsOf(params));
+    },
+    update(agent, { sim, cell, params }) {
+        const propagation = sim.params.propagationChance;
+        if (propagation <= 0 || agent.excitedLevel !== 0) return;
+
+        const contacts = findContacts(sim, agent, cell, params);
+        if (contacts.length < Math.max(1, params.contactThreshold)) return;
+        for (const k of contacts) {
+            const other = sim.agents[k];
+            const chance = propagation * params.cascadeAttenuation ** other.cascadeDepth;
+            if (sim.rng.next() < chance) {
+                agent.exciteFrom(sim, other);
+                break;
+            }
+        }
+    }
+};
+
+// 伝わる段数を 1 〜 MAX_CASCADE_LEVELS の整数に収める
+function cascadeLevelsOf(params: Record<string, number>): number {
+    return Math.max(1, Math.min(MAX_CASCADE_LEVELS, Math.floor(params.cascadeLevels)));
+}
+
+// 使い回す作業用の配列
+const contactBuffer: number[] = [];
+
+// 接触している同じコロニーの発信源の添字 (セル順、セル内は添字順)
+// 接触半径が 0 なら同じセルにいる個体だけ、それ以外は半径が届く隣のセルまで探す
+// 索引を作った後に (このティックで先に更新されて) 興奮が冷めた個体と、伝えられる段数を超えた個体は除く
+function findContacts(sim: Simulation, agent: Agent, cell: number, params: Record<string, number>): number[] {
+    const spatial = sim.spatial;
+    const store = sim.store;
+    const radius = params.contactRadius;
+    const levels = cascadeLevelsOf(params);
+    contactBuffer.length = 0;
+    if (radius <= 0) {
+        for (let k = spatial.sourceStart[cell]; k < spatial.sourceStart[cell + 1]; k++) {
+            const j = spatial.sources[k];
+            if (store.colony[j] === agent.colony && isSource(store, j, levels)) contactBuffer.push(j);
+        }
+        return contactBuffer;
+    }
+
+    const reach = Math.ceil(radius / spatial.cellSize);
+    const cx = cell % spatial.cols;
+    const cy = Math.floor(cell / spatial.cols);
+    const r2 = radius * radius;
+    for (let y = Math.max(0, cy - reach); y <= Math.min(spatial.rows - 1, cy + reach); y++) {
+        for (let x = Math.max(0, cx - reach); x <= Math.min(spatial.cols - 1, cx + reach); x++) {
+            const c = y * spatial.cols + x;
+            for (let k = spatial.sourceStart[c]; k < spatial.sourceStart[c + 1]; k++) {
+                const j = spatial.sources[k];
+                if (store.colony[j] !== agent.colony || !isSource(store, j, levels)) continue;
+                const dx = store.x[j] - agent.x;
+                const dy = store.y[j] - agent.y;
+                if (dx * dx + dy * dy <= r2) contactBuffer.push(j);
+            }
+        }
+    }
+    return contactBuffer;
+}
+
+// コロニー間の遭遇: 同じセルに他コロニーの個体がいたら確率的に引き返す
+export const colonyEncounterRule: BehaviorRule = {
+    id: 'colonyEncounter',
+    name: 'コロニー間の遭遇',
+    description: '同じセルに他コロニーの個体がいると「引き返す確率」で引き返し、興奮も冷める',
+    enabledByDefault: false,
+    params: [
+        { key: 'chance', label: '引き返す確率', min: 0, max: 1, step: 0.05, value: 0.5 }
+    ],
+    update(agent, { sim, cell, params }) {
+        if ((sim.spatial.colonyMask[cell] & ~(1 << agent.colony)) !== 0) {
+            if (sim.rng.next() < params.chance) {
+                agent.angle += Math.PI;
+                agent.excitedLevel = 0;
+            }
+        }
+    }
+};
@@ -0,0 +1,16 @@
+import { AgentState, PheromoneType } from '../config';
+import type { BehaviorRule } from '../rule-pipeline';
+
+// フェロモン塗布 & 状態更新 (餌場で拾う・巣に届ける・巣に入る)
+export const foragingRule: BehaviorRule = {
+    id: 'foraging',
+    name: '採餌と匂いの塗布',
+    description: '探索中は巣の匂い (立入禁止ルールが有効なら立入禁止の匂いも)、帰巣中は餌の匂いを落とし、餌場や巣に着いたら状態を切り替える',
+    update(agent, { sim, repellent }) {
+        // 長く探しても道に出会えない個体は「ここには何もない」という立入禁止の匂いも落とす
+        if (repellent && agent.state === AgentState.FORAGING && agent.searchTime > repellent.searchTime) {
+            sim.grids[agent.colony].deposit(agent.x, agent.y, PheromoneType.REPEL, repellent.deposit);
+        }
+        agent.handleStateAndPheromones(sim);
+    }
+};
@@ -0,0 +1,26 @@
+import type { BehaviorRule } from '../rule-pipeline';
+import { colonyEncounterRule, contagionRule, excitedDecayRule } from './excitement';
+import { giveUpRule, searchTimeRule, senseRule, wiggleRule } from './navigation';
+import { repellentRule } from './repellent';
+import { boundariesRule, explorationResistanceRule, moveRule, obstaclesRule } from './movement';
+import { foragingRule } from './foraging';
+import { metabolismRule } from './metabolism';
+
+// 組み込みのルール (この順が既定の実行順)
+// 新しいルールはこのディレクトリにモジュールを作り、ここに足す
+export const BUILTIN_RULES: readonly BehaviorRule[] = [
+    excitedDecayRule,
+    contagionRule,
+    colonyEncounterRule,
+    repellentRule,
+    senseRule,
+    searchTimeRule,
+    giveUpRule,
+    wiggleRule,
+    explorationResistanceRule,
+    moveRule,
+    boundariesRule,
+    obstaclesRule,
+    foragingRule,
+    metabolismRule
+];
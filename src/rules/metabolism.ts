@@ -0,0 +1,67 @@
+import { AgentState } from '../config';
+import type { Agent } from '../agent';
+import type { BehaviorRule } from '../rule-pipeline';
+import type { Simulation } from '../simulation';
+
+// 代謝
+// 巣の外では毎ティック、速さに比例してエネルギーを使う (興奮中は速さの倍率だけ多く、探索抵抗で遅いときは少なく)
+// 自分の巣 (最後に着いた自分のコロニーの巣) にいる間はコロニーの貯蔵から補給し、エネルギーが尽きたら死ぬ
+// 持ち帰った餌のうち幼虫に回した分が birthCost に達するごとに、巣で1体生まれる
+// ただしコロニーの個体数が maxColonySize に達している間は生まれない (幼虫に回した餌はそのまま残る)
+// (貯蔵と幼虫への振り分けは Simulation.receiveFood、初期の貯蔵は initAgents がこのルールのパラメータで行う)
+export const metabolismRule: BehaviorRule = {
+    id: 'metabolism',
+    name: '代謝と個体数',
+    description: '歩くとエネルギーを使い、巣の貯蔵で補給する。尽きると死に、持ち帰った餌から新しい個体が生まれる',
+    enabledByDefault: false,
+    params: [
+        { key: 'energyCapacity', label: '満タンで歩ける tick 数 (興奮中は速さの倍率だけ早く減る)', min: 500, max: 10000, step: 100, value: 3000 },
+        { key: 'foodEnergy', label: '餌1つで歩ける tick 数', min: 100, max: 5000, step: 100, value: 1500 },
+        { key: 'initialFoodStore', label: '巣の初期貯蔵 (餌。リセット時に反映)', min: 0, max: 500, step: 10, value: 50 },
+        { key: 'broodShare', label: '持ち帰った餌のうち幼虫に回す割合', min: 0, max: 1, step: 0.05, value: 0.3 },
+        { key: 'birthCost', label: '1体生まれるのに要る餌', min: 0.5, max: 20, step: 0.5, value: 3 },
+        { key: 'maxColonySize', label: 'コロニーあたりの個体数の上限 (これ以上は生まれない)', min: 10, max: 50000, step: 10, value: 2000 }
+    ],
+    beforeTick(sim, params) {
+        if (params.birthCost > 0) {
+            const alive = sim.colonyStores.map(() => 0);
+            for (const agent of sim.agents) {
+                if (agent.state !== AgentState.DEAD) alive[agent.colony]++;
+            }
+            sim.colonyStores.forEach((store, colony) => {
+                const nests = sim.coloniesNests(colony);
+                while (store.brood >= params.birthCost && nests.length > 0 && alive[colony] < params.maxColonySize) {
+                    store.brood -= params.birthCost;
+                    // コロニーの巣に順番に生む
+                    sim.spawnAgent(nests[sim.births % nests.length], colony);
+                    alive[colony]++;
+                }
+            });
+        }
+        // 巣で待機している個体はエネルギーを使わず、補給だけする
+        for (const agent of sim.agents) {
+            if (agent.state === AgentState.IN_NEST) refill(sim, agent, params);
+        }
+    },
+    update(agent, { sim, params, speedFactor }) {
+        // move より後に動くので、speedFactor はこのティックに実際に掛かった係数
+        const speed = (agent.excitedLevel > 0 ? sim.params.excitedSpeedMult : 1) * speedFactor;
+        agent.energy -= speed / Math.max(1, params.energyCapacity);
+
+        const nest = agent.findHomeNest(sim);
+        if (nest && Math.hypot(agent.x - nest.x, agent.y - nest.y) < nest.r) {
+            refill(sim, agent, params);
+        }
+        if (agent.energy <= 0) sim.killAgent(agent);
+    }
+};
+
+// コロニーの貯蔵から満タンになるまで (足りなければあるだけ) 補給する
+function refill(sim: Simulation, agent: Agent, params: Record<string, number>) {
+    const store = sim.colonyStores[agent.colony];
+    if (!store || agent.energy >= 1 || params.foodEnergy <= 0) return;
+    const energyPerFood = params.foodEnergy / Math.max(1, params.energyCapacity);
+    const taken = Math.min((1 - agent.energy) / energyPerFood, store.food);
+    store.food -= taken;
+    agent.energy = Math.min(1, agent.energy + taken * energyPerFood);
+}
@@ -0,0 +1,55 @@
+import { PheromoneType } from '../config';
+import type { BehaviorRule } from '../rule-pipeline';
+
+// 探索抵抗 (フェロモンがない場所への進みにくさ)
+export const explorationResistanceRule: BehaviorRule = {
+    id: 'explorationResistance',
+    name: '探索抵抗',
+    description: 'フェロモンの薄い場所ほど遅く進む (「探索抵抗」が 0 より大きいとき)',
+    update(agent, step) {
+        const params = step.sim.params;
+        if (params.explorationResistance <= 0) return;
+        const grid = step.sim.grids[agent.colony];
+        const currentPheromone = Math.max(
+            grid.getLevel(agent.x, agent.y, PheromoneType.HOME),
+            grid.getLevel(agent.x, agent.y, PheromoneType.FOOD)
+        );
+        const factor = 1.0 - (params.explorationResistance * (1.0 - currentPheromone));
+        step.speedFactor *= Math.max(0, factor);
+    }
+};
+
+// 向いている方向へ進む (興奮中は速い)
+export const moveRule: BehaviorRule = {
+    id: 'move',
+    name: '移動',
+    description: '向いている方向へ「移動速度」だけ進む (興奮中は倍率を掛ける)',
+    update(agent, step) {
+        const params = step.sim.params;
+        const speed = params.moveSpeed * (agent.excitedLevel > 0 ? params.excitedSpeedMult : 1.0) * step.speedFactor;
+        step.prevX = agent.x;
+        step.prevY = agent.y;
+        agent.x += Math.cos(agent.angle) * speed;
+        agent.y += Math.sin(agent.angle) * speed;
+    }
+};
+
+// 画面端でのバウンス
+export const boundariesRule: BehaviorRule = {
+    id: 'boundaries',
+    name: '画面端で跳ね返る',
+    description: '画面の外に出た個体を端に戻し、向きを反射させる',
+    update(agent, { sim }) {
+        agent.handleBoundaries(sim.grids[agent.colony]);
+    }
+};
+
+// 障害物判定 (画面端に押し戻した後の位置で調べる。先に調べると画面端に接した壁に押し込まれる)
+export const obstaclesRule: BehaviorRule = {
+    id: 'obstacles',
+    name: '壁で引き返す',
+    description: '移動が壁を横切ったら元の位置に戻って向きを変える',
+    update(agent, { sim, prevX, prevY }) {
+        agent.handleObstacles(sim, prevX, prevY);
+    }
+};
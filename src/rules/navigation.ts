@@ -0,0 +1,71 @@
+import { AgentState, PheromoneType } from '../config';
+import type { BehaviorRule } from '../rule-pipeline';
+
+// センサーによる方向転換 (諦めて帰巣中は巣の方向へ寄せる)
+export const senseRule: BehaviorRule = {
+    id: 'sense',
+    name: 'センサーで方向転換',
+    description: '左・正面・右のフェロモンを嗅ぎ、濃い方へ曲がる。ときどき U ターンする',
+    update(agent, { sim, repellent }) {
+        agent.sense(sim, repellent?.avoidance ?? 0);
+    }
+};
+
+// 道の外を歩いた時間 (諦めと立入禁止フェロモンが使う)
+// 探索中で平常の個体だけ数え、どちらかの匂いが閾値を超える場所に出たら 0 に戻す
+export const searchTimeRule: BehaviorRule = {
+    id: 'searchTime',
+    name: '道の外を歩いた時間',
+    description: '探索中の個体が道 (匂いが閾値を超える場所) の外を歩いたティック数を数える。諦めと立入禁止フェロモンはこの値を使う',
+    params: [
+        { key: 'trailThreshold', label: '道とみなす濃度', min: 0.005, max: 0.5, step: 0.005, value: 0.05 }
+    ],
+    update(agent, { sim, params }) {
+        if (agent.state !== AgentState.FORAGING || agent.excitedLevel !== 0) return;
+        const grid = sim.grids[agent.colony];
+        const currentHome = grid.getLevel(agent.x, agent.y, PheromoneType.HOME);
+        const currentFood = grid.getLevel(agent.x, agent.y, PheromoneType.FOOD);
+
+        // 道に乗っているか判定
+        if (currentHome > params.trailThreshold || currentFood > params.trailThreshold) {
+            agent.searchTime = 0;
+        } else {
+            agent.searchTime++;
+        }
+    }
+};
+
+// 諦め(Give-up)判定 (規則A)
+// 一定時間 (デフォルト900ティック) 道に出会えなければ諦めて巣に帰る
+export const giveUpRule: BehaviorRule = {
+    id: 'giveUp',
+    name: '諦め (規則A)',
+    description: '道の外を歩いた時間が制限時間を超えた個体を巣へ帰す (「道の外を歩いた時間」より後に置く)',
+    enabledByDefault: false,
+    params: [
+        { key: 'timeout', label: '制限時間 (ティック)', min: 60, max: 3000, step: 10, value: 900 }
+    ],
+    update(agent, { sim, params }) {
+        if (agent.state !== AgentState.FORAGING || agent.excitedLevel !== 0) return;
+        if (agent.searchTime > params.timeout) {
+            agent.state = AgentState.RETURNING_HOME;
+            agent.givingUp = true;
+            sim.giveUps++;
+        }
+    }
+};
+
+// ランダムなゆらぎ (興奮中はまっすぐ進む)
+export const wiggleRule: BehaviorRule = {
+    id: 'wiggle',
+    name: 'ランダムなゆらぎ',
+    description: '毎ティック向きを少しだけランダムに変える (興奮中は小さく)',
+    params: [
+        { key: 'amount', label: 'ゆらぎの幅 (ラジアン)', min: 0, max: 1, step: 0.01, value: 0.2 },
+        { key: 'excitedAmount', label: '興奮中のゆらぎの幅', min: 0, max: 1, step: 0.01, value: 0.05 }
+    ],
+    update(agent, { sim, params }) {
+        const wiggle = (agent.excitedLevel > 0) ? params.excitedAmount : params.amount;
+        agent.angle += (sim.rng.next() - 0.5) * wiggle;
+    }
+};
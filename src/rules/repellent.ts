@@ -0,0 +1,25 @@
+import type { BehaviorRule } from '../rule-pipeline';
+
+// 立入禁止フェロモン (規則A とは別の負のフィードバック)
+// 長く探しても道に出会えない個体が「ここには何もない」という匂いを落とし、探索中の個体はそれを避ける
+// このルールは設定を AgentStep に載せるだけで、避けるのは感知ルール、落とすのは採餌ルールが行う
+// (センサーより前に置く。道の外を歩いた時間は「道の外を歩いた時間」ルールが数える)
+// 匂いの蒸発もこのルールが行うので、無効にしている間は残った匂いがそのまま止まる
+export const repellentRule: BehaviorRule = {
+    id: 'repellent',
+    name: '立入禁止フェロモン',
+    description: '道の外を長く歩いた探索中の個体が立入禁止の匂いを落とし、探索中の個体はその方向を避ける (センサーより前に置く)',
+    enabledByDefault: false,
+    params: [
+        { key: 'searchTime', label: '落とし始めるまでの時間 (ティック)', min: 30, max: 3000, step: 10, value: 300 },
+        { key: 'deposit', label: '1ティックに落とす量', min: 0.005, max: 0.5, step: 0.005, value: 0.05 },
+        { key: 'avoidance', label: '避ける強さ', min: 0, max: 10, step: 0.1, value: 2.0 },
+        { key: 'evaporationRate', label: '残存率', min: 0.9, max: 0.9999, step: 0.0005, value: 0.995 }
+    ],
+    beforeTick(sim, params) {
+        for (const grid of sim.grids) grid.evaporateRepellent(params.evaporationRate);
+    },
+    update(_agent, step) {
+        step.repellent = step.params;
+    }
+};
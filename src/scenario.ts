@@ -0,0 +1,338 @@
+import { WIDTH, HEIGHT, DEFAULT_PARAMS, colonyCountOf, type SimParams } from './config';
+import type { Simulation } from './simulation';
+import { readEvent, type SimEvent } from './events';
+import { defaultRuleSettings, normalizeRuleSettings, readRuleSetting, setRuleValue, type RuleSetting } from './rule-pipeline';
+import type { FoodSource, Nest, Obstacle } from './world';
+
+// シナリオ: パラメータ・配置・シード (・任意でフェロモン) をまとめた保存形式
+// 形式を変えたら SCENARIO_VERSION を上げ、parseScenario で古い版を読めるようにする
+export const SCENARIO_VERSION = 9;
+
+export type NestLayout = Pick<Nest, 'x' | 'y' | 'r' | 'colony'>;
+export type FoodLayout = Pick<FoodSource, 'x' | 'y' | 'r' | 'capacity' | 'amount' | 'quality'>;
+
+export interface PheromoneLayer {
+    home: string; // Float32Array を base64 化したもの
+    food: string;
+    repel: string; // v4 までは無い (空として読む)
+}
+
+export interface PheromoneSnapshot {
+    width: number;
+    height: number;
+    layers: PheromoneLayer[]; // コロニーごと (添字 = コロニー番号)
+}
+
+export interface Scenario {
+    version: number;
+    params: SimParams;
+    seed: number;
+    nests: NestLayout[];
+    foodSources: FoodLayout[];
+    obstacles: Obstacle[];
+    pheromones?: PheromoneSnapshot;
+    events?: SimEvent[]; // 予定されたイベント (v5 までは無い)
+    rules?: RuleSetting[]; // 行動ルールの並び (無ければ実行中の設定のまま。v7 まではファイルに無いので当時の並びで読む)
+}
+
+// イベントを実行済みなら、配置はイベント前のものを保存する (読み込むとイベントをもう一度実行するので)
+export function captureScenario(sim: Simulation, options: { includePheromones?: boolean } = {}): Scenario {
+    const layout = sim.eventBaseline ?? sim;
+    const scenario: Scenario = {
+        version: SCENARIO_VERSION,
+        params: sim.paramsBeforeEvents(),
+        seed: sim.seed,
+        nests: layout.nests.map(({ x, y, r, colony }) => ({ x, y, r, colony })),
+        foodSources: layout.foodSources.map(({ x, y, r, capacity, amount, quality }) => ({ x, y, r, capacity, amount, quality })),
+        obstacles: layout.obstacles.map(({ x, y, w, h }) => ({ x, y, w, h })),
+        rules: sim.rulesBeforeEvents()
+    };
+    if (sim.scheduledEvents.length > 0) scenario.events = sim.scheduledEvents.map(e => ({ ...e }));
+    if (options.includePheromones) {
+        scenario.pheromones = {
+            width: WIDTH,
+            height: HEIGHT,
+            layers: sim.grids.map(grid => ({
+                home: encodeFloat32(grid.homeGrid),
+                food: encodeFloat32(grid.foodGrid),
+                repel: encodeFloat32(grid.repelGrid)
+            }))
+        };
+    }
+    return scenario;
+}
+
+// シナリオの配置とパラメータを読み込み、そのシードで最初から実行し直す
+export function applyScenario(sim: Simulation, scenario: Scenario) {
+    // 前の実行のイベントの効果は、読み込んだ配置の上ではなく先に戻しておく
+    sim.undoEvents();
+    Object.assign(sim.params, scenario.params);
+    if (scenario.rules) sim.rules.setSettings(scenario.rules);
+    sim.obstacles = scenario.obstacles.map(o => ({ ...o }));
+    sim.rebuildOccupancy();
+    sim.nests = scenario.nests.map(n => ({ ...n, surgeTimer: 0, delivered: 0 }));
+    sim.foodSources = scenario.foodSources.map(f => ({ ...f, surgeTimer: 0 }));
+    sim.saveFoodLayout();
+    sim.restart(scenario.seed);
+    sim.setEvents(scenario.events ?? []);
+
+    const ph = scenario.pheromones;
+    if (ph && ph.width === WIDTH && ph.height === HEIGHT) {
+        ph.layers.forEach((layer, i) => {
+            const grid = sim.grids[i];
+            if (!grid) return;
+            grid.homeGrid.set(decodeFloat32(layer.home));
+            grid.foodGrid.set(decodeFloat32(layer.food));
+            if (layer.repel !== '') grid.repelGrid.set(decodeFloat32(layer.repel));
+        });
+    }
+}
+
+// JSON を検証してシナリオに変換する。不正な内容なら Error を投げる
+export function parseScenario(json: string): Scenario {
+    const data = JSON.parse(json);
+    if (typeof data !== 'object' || data === null) throw new Error('Scenario must be a JSON object');
+    if (typeof data.version !== 'number' || data.version > SCENARIO_VERSION) {
+        throw new Error(`Unsupported scenario version: ${data.version}`);
+    }
+
+    // 知らない項目は捨て、足りない項目はデフォルト値で補う
+    const params: SimParams = { ...DEFAULT_PARAMS };
+    for (const key of Object.keys(DEFAULT_PARAMS) as (keyof SimParams)[]) {
+        const value = data.params?.[key];
+        if (value !== undefined && typeof value === typeof DEFAULT_PARAMS[key]) {
+            // @ts-ignore
+            params[key] = value;
+        }
+    }
+    // v3 までは蒸発率が HOME/FOOD 共通の evaporationRate だった
+    if (data.version < 4 && typeof data.params?.evaporationRate === 'number') {
+        params.homeEvaporationRate = data.params.evaporationRate;
+        params.foodEvaporationRate = data.params.evaporationRate;
+    }
+
+    const nests = readNests(data);
+    if (nests.length === 0) throw new Error('Scenario needs at least one nest');
+    // 巣のコロニーにはフェロモン層と個体がなければならない
+    const colonies = colonyCountOf(params);
+    for (const n of nests) {
+        if (!Number.isInteger(n.colony) || n.colony < 0 || n.colony >= colonies) {
+            throw new Error(`Nest colony ${n.colony} is out of range (colonyCount=${colonies})`);
+        }
+    }
+
+    const scenario: Scenario = {
+        version: SCENARIO_VERSION,
+        params,
+        seed: typeof data.seed === 'number' ? data.seed >>> 0 : 0,
+        nests,
+        foodSources: readFoodSources(data),
+        obstacles: readShapes(data.obstacles, 'obstacles', ['x', 'y', 'w', 'h'])
+    };
+
+    const ph = data.pheromones;
+    if (ph) {
+        if (typeof ph.width !== 'number' || typeof ph.height !== 'number') {
+            throw new Error('Invalid pheromone snapshot');
+        }
+        // v2 までは1コロニー分の home/food を直接持っている
+        const layers: unknown[] = data.version < 3 ? [ph] : ph.layers;
+        if (!Array.isArray(layers)) throw new Error('Invalid pheromone snapshot');
+        // 読み込み途中で失敗して中途半端な状態にならないよう、大きさはここで確かめておく
+        if (ph.width !== WIDTH || ph.height !== HEIGHT) {
+            throw new Error(`Pheromone snapshot is ${ph.width}x${ph.height}, expected ${WIDTH}x${HEIGHT}`);
+        }
+        scenario.pheromones = {
+            width: ph.width,
+            height: ph.height,
+            layers: layers.map((layer, i) => readPheromoneLayer(layer, i, WIDTH * HEIGHT))
+        };
+    }
+
+    // 知らないルールは捨て、足りないルールは既定の設定で補う
+    let rules: RuleSetting[] | null = null;
+    if (data.rules !== undefined) {
+        if (!Array.isArray(data.rules)) throw new Error('Scenario rules must be an array');
+        rules = data.rules.map(readRuleSetting);
+    }
+
+    if (data.events !== undefined) {
+        if (!Array.isArray(data.events)) throw new Error('Scenario events must be an array');
+        const events: unknown[] = data.version < 9 ? data.events.map((e: unknown) => migrateLegacyEvent(e, rules)) : data.events;
+        scenario.events = events.map(readEvent);
+    }
+    if (data.version < 9) {
+        scenario.rules = migrateRuleSwitches(rules, data.params ?? {});
+    } else {
+        scenario.rules = rules ? normalizeRuleSettings(rules) : defaultRuleSettings();
+    }
+    return scenario;
+}
+
+// v8 までは SimParams の真偽値でもルールを切り替えていた (ルールの有効/無効と両方がオンのときだけ動く)
+const LEGACY_RULE_SWITCHES: Record<string, string> = {
+    enableGiveUp: 'giveUp',
+    enableRepellent: 'repellent',
+    enableColonyEncounter: 'colonyEncounter',
+    enableMetabolism: 'metabolism'
+};
+
+// v8 まで SimParams にあったルールの設定
+const LEGACY_RULE_PARAMS: Record<string, string> = {
+    giveUpTimeout: 'giveUp.timeout',
+    giveUpTrailThreshold: 'searchTime.trailThreshold',
+    encounterChance: 'colonyEncounter.chance',
+    repellentSearchTime: 'repellent.searchTime',
+    repellentDeposit: 'repellent.deposit',
+    repellentAvoidance: 'repellent.avoidance',
+    repellentEvaporationRate: 'repellent.evaporationRate',
+    contactRadius: 'contagion.contactRadius',
+    cascadeLevels: 'contagion.cascadeLevels',
+    cascadeAttenuation: 'contagion.cascadeAttenuation',
+    contactThreshold: 'contagion.contactThreshold',
+    energyCapacity: 'metabolism.energyCapacity',
+    foodEnergy: 'metabolism.foodEnergy',
+    initialFoodStore: 'metabolism.initialFoodStore',
+    broodShare: 'metabolism.broodShare',
+    birthCost: 'metabolism.birthCost'
+};
+
+// 古い版のルールの並びとスイッチを今の設定に直す
+// v7 まではルールの並びが無い (当時のルールはすべて有効だった)
+// 道の外を歩いた時間と立入禁止は v8 の並びに無いので、それぞれ諦めとセンサーの前に差し込む
+function migrateRuleSwitches(rules: RuleSetting[] | null, legacy: Record<string, unknown>): RuleSetting[] {
+    const list = rules ? [...rules] : defaultRuleSettings().map(r => ({ ...r, enabled: true }));
+    const insertBefore = (id: string, before: string, enabled: boolean) => {
+        if (list.some(r => r.id === id)) return;
+        const i = list.findIndex(r => r.id === before);
+        list.splice(i < 0 ? list.length : i, 0, { id, enabled, params: {} });
+    };
+    // 探索時間は諦めのルールが数えていた
+    insertBefore('searchTime', 'giveUp', list.find(r => r.id === 'giveUp')?.enabled ?? true);
+    insertBefore('repellent', 'sense', true);
+
+    const settings = normalizeRuleSettings(list);
+    for (const [key, id] of Object.entries(LEGACY_RULE_SWITCHES)) {
+        const setting = settings.find(r => r.id === id)!;
+        setting.enabled = setting.enabled && legacy[key] === true;
+    }
+    for (const [key, name] of Object.entries(LEGACY_RULE_PARAMS)) {
+        const value = legacy[key];
+        if (typeof value === 'number' && isFinite(value)) setRuleValue(settings, name, value);
+    }
+    return settings;
+}
+
+// cells: 1層あたりのセル数 (デコードした長さがこれと違えば Error を投げる)
+// v8 まで SimParams にあったルールのスイッチや設定を変える setParam を、"id.enabled" / "id.key" に直す
+// スイッチはルールの並びでも有効だったときだけ効いていたので、無効だったルールはオンにしない
+function migrateLegacyEvent(value: unknown, rules: RuleSetting[] | null): unknown {
+    const event = value as Record<string, unknown> | null;
+    if (event?.type !== 'setParam' || typeof event.key !== 'string') return value;
+    const key = event.key;
+    if (Object.hasOwn(LEGACY_RULE_SWITCHES, key)) {
+        const id = LEGACY_RULE_SWITCHES[key];
+        const listed = rules?.find(r => r.id === id)?.enabled ?? true;
+        const enabled = typeof event.value === 'boolean' ? event.value && listed : event.value;
+        return { ...event, key: `${id}.enabled`, value: enabled };
+    }
+    if (Object.hasOwn(LEGACY_RULE_PARAMS, key)) return { ...event, key: LEGACY_RULE_PARAMS[key] };
+    return value;
+}
+
+function readPheromoneLayer(value: unknown, index: number, cells: number): PheromoneLayer {
+    const layer = value as Partial<PheromoneLayer> | null;
+    if (typeof layer?.home !== 'string' || typeof layer.food !== 'string') {
+        throw new Error('Invalid pheromone snapshot');
+    }
+    if (layer.repel !== undefined && typeof layer.repel !== 'string') throw new Error('Invalid pheromone snapshot');
+    const result = { home: layer.home, food: layer.food, repel: layer.repel ?? '' };
+    for (const key of ['home', 'food', 'repel'] as const) {
+        if (key === 'repel' && result.repel === '') continue;
+        let bytes: number;
+        try {
+            bytes = base64ToBytes(result[key]).byteLength;
+        } catch {
+            throw new Error(`Invalid pheromone layer ${index}.${key}`);
+        }
+        if (bytes !== cells * 4) throw new Error(`Pheromone layer ${index}.${key} has ${bytes / 4} cells, expected ${cells}`);
+    }
+    return result;
+}
+
+// v2 までは巣にコロニーがないので全てコロニー0として読む
+function readNests(data: { version: number; nests: unknown }): NestLayout[] {
+    if (data.version < 3) {
+        return readShapes(data.nests, 'nests', ['x', 'y', 'r']).map(n => ({ ...n, colony: 0 }));
+    }
+    return readShapes(data.nests, 'nests', ['x', 'y', 'r', 'colony']);
+}
+
+// v1 には餌の量がないので無限の餌場として読む
+function readFoodSources(data: { version: number; foodSources: unknown }): FoodLayout[] {
+    if (data.version < 2) {
+        return readShapes(data.foodSources, 'foodSources', ['x', 'y', 'r'])
+            .map(f => ({ ...f, capacity: 0, amount: 0, quality: 1 }));
+    }
+    // v6 までは餌の質がない (すべて標準)
+    if (data.version < 7) {
+        return readShapes(data.foodSources, 'foodSources', ['x', 'y', 'r', 'capacity', 'amount'])
+            .map(f => ({ ...f, quality: 1 }));
+    }
+    return readShapes(data.foodSources, 'foodSources', ['x', 'y', 'r', 'capacity', 'amount', 'quality']);
+}
+
+function readShapes<K extends string>(value: unknown, name: string, fields: K[]): Record<K, number>[] {
+    if (!Array.isArray(value)) throw new Error(`Scenario field "${name}" must be an array`);
+    return value.map((item, i) => {
+        const shape = {} as Record<K, number>;
+        for (const f of fields) {
+            const v = item?.[f];
+            if (typeof v !== 'number' || !isFinite(v)) throw new Error(`Invalid ${name}[${i}].${f}`);
+            shape[f] = v;
+        }
+        return shape;
+    });
+}
+
+// --- URL 共有 ---
+// フェロモンは大きすぎるので含めない
+
+export function encodeScenarioForUrl(scenario: Scenario): string {
+    const { pheromones: _omit, ...rest } = scenario;
+    const bytes = new TextEncoder().encode(JSON.stringify(rest));
+    return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeScenarioFromUrl(encoded: string): Scenario {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = base64ToBytes(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return parseScenario(new TextDecoder().decode(bytes));
+}
+
+// --- base64 ---
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+function encodeFloat32(arr: Float32Array): string {
+    return bytesToBase64(new Uint8Array(arr.buffer, arr.byteOffset, arr.byteLength));
+}
+
+function decodeFloat32(base64: string): Float32Array {
+    const bytes = base64ToBytes(base64);
+    return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+}
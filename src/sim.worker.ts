@@ -0,0 +1,45 @@
+import { Simulation, type SimStats } from './simulation';
+import { applyScenario } from './scenario';
+import { runBenchmark } from './benchmark';
+import { captureFrame, frameTransferables } from './snapshot';
+import type { WorkerRequest, WorkerResponse } from './worker-protocol';
+
+// シミュレーションを別スレッドで回し、描画用のフレームを転送で返す
+
+let sim = new Simulation();
+
+function reply(message: WorkerResponse, transfer: Transferable[] = []) {
+    self.postMessage(message, { transfer });
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+    const req = e.data;
+    switch (req.type) {
+        case 'start':
+            sim = new Simulation(req.scenario.params, req.scenario.seed);
+            applyScenario(sim, req.scenario);
+            break;
+        case 'frame': {
+            Object.assign(sim.params, req.params);
+            if (req.rules) sim.rules.setSettings(req.rules);
+            Object.assign(sim.metrics.settings, req.metrics);
+            const history: SimStats[] = [];
+            for (let i = 0; i < req.ticks; i++) {
+                sim.step();
+                if (sim.tick % req.statsStride === 0) history.push(sim.getStats());
+            }
+            const frame = captureFrame(sim, true, req.inspect);
+            reply({ type: 'frame', frame, history }, frameTransferables(frame));
+            break;
+        }
+        case 'setFoodCapacity':
+            sim.setFoodCapacity(req.capacity);
+            break;
+        case 'benchmark': {
+            const bench = new Simulation(req.scenario.params, req.scenario.seed);
+            applyScenario(bench, req.scenario);
+            reply({ type: 'benchmark', result: runBenchmark(bench, req.ticks) });
+            break;
+        }
+    }
+};
@@ -0,0 +1,595 @@
+import {
+    WIDTH, HEIGHT, SPATIAL_CELL_SIZE, DEFAULT_PARAMS, AgentState, PheromoneType,
+    colonyCountOf, isOnField, type SimParams
+} from './config';
+import { Agent } from './agent';
+import { AgentStore } from './agent-store';
+import { SpatialHash } from './spatial';
+import { PheromoneGrid } from './pheromone';
+import { OccupancyGrid } from './occupancy';
+import { MetricsTracker, type TickMetrics } from './metrics';
+import { CascadeTracker } from './cascade';
+import { Rng, deriveSeed, randomSeed } from './rng';
+import { applyEvent, sortEvents, type SimEvent } from './events';
+import { RulePipeline, getRuleValue, isRuleKey, setRuleValue, type RuleSetting } from './rule-pipeline';
+import {
+    createFoods, createMaze, createNests, isDepleted,
+    type FoodSource, type Nest, type Obstacle
+} from './world';
+
+// 現フレームの集計値 (統計パネルと同じ項目)
+export interface SimStats {
+    tick: number;
+    total: number;               // 生きている個体の数
+    foraging: number;
+    returning: number;
+    returningHome: number;       // 諦めて帰巣中 (規則A)
+    inNest: number;              // 巣の中で待機中
+    excited2: number;
+    excited1: number;
+    giveUps: number;             // 探索を諦めた回数 (累計)
+    deaths: number;              // エネルギーが尽きて死んだ数 (累計)
+    births: number;              // 持ち帰った餌から生まれた数 (累計)
+    deliveriesPerNest: number[]; // 巣ごとの持ち帰った餌の量 (累計)
+    foodRemaining: number;       // 有限の餌場に残っている餌の合計
+    colonies: ColonyStats[];     // コロニーごとの集計
+}
+
+export interface ColonyStats {
+    total: number;
+    outside: number;   // 巣の外にいる個体
+    returning: number; // 餌を持って帰巣中
+    delivered: number; // 持ち帰った餌の量 (累計)
+    stored: number;    // 貯蔵している餌の量 (代謝ルールが有効なとき)
+}
+
+// 描画や記録に渡すためのエージェントの状態コピー
+export interface AgentSnapshot {
+    x: number;
+    y: number;
+    angle: number;
+    state: AgentState;
+    excitedLevel: number;
+}
+
+// コロニーの餌の蓄え (代謝ルールが有効なときだけ増減する)
+export interface ColonyStore {
+    food: number;  // 巣にいる個体のエネルギー補給に使う
+    brood: number; // 幼虫に回した餌 (birthCost ごとに1体生まれる)
+}
+
+// 配置の生成に使う乱数列の番号 (deriveSeed)
+const LAYOUT_STREAM = 1;
+
+export interface EventBaseline {
+    params: SimParams;
+    rules: RuleSetting[];
+    nests: Nest[];
+    foodSources: FoodSource[];
+    obstacles: Obstacle[];
+}
+
+// DOM に依存しないシミュレーション本体
+// 描画側 (main.ts) やヘッドレス実行はこのオブジェクトを読むだけにする
+export class Simulation {
+    readonly params: SimParams;
+    // コロニーごとのフェロモン層 (添字 = コロニー番号)
+    grids: PheromoneGrid[] = [];
+    nests: Nest[] = [];
+    foodSources: FoodSource[] = [];
+    obstacles: Obstacle[] = [];
+    // restart で戻す餌場 (saveFoodLayout で更新する)
+    private foodLayout: FoodSource[] = [];
+    // 障害物のラスタ化 (obstacles を書き換えたら rebuildOccupancy を呼ぶ)
+    readonly occupancy = new OccupancyGrid(WIDTH, HEIGHT);
+    agents: Agent[] = [];
+    // エージェントの状態の実体 (agents[i] は store の i 行目)
+    readonly store = new AgentStore();
+    // 死んだ個体の添字 (spawnAgent で新しい個体に使い回す)
+    private deadSlots: number[] = [];
+
+    // 個体の行動規則 (並びと有効/無効は UI から変えられる)
+    readonly rules = new RulePipeline(this);
+
+    // 接触判定のための空間分割 (簡易グリッド)。密度マップの描画にも使う
+    readonly spatial = new SpatialHash(WIDTH, HEIGHT, SPATIAL_CELL_SIZE);
+
+    // 実行中の乱数はすべてこの rng から引く。同じシードと同じ params なら軌跡は完全に一致する
+    // initAgents でシードから引き直すので、配置をどう作ったか (生成・読み込み・編集) に関わらず同じ実行になる
+    rng: Rng;
+    // 巣・餌場・迷路の生成にだけ使う乱数 (rng とは別の列。reset でシードから作り直す)
+    private layoutRng: Rng;
+    tick = 0;
+    private spawnAccumulator = 0;
+    // 予定されたイベント (ティック順)。nextEvent より前は実行済み
+    private events: SimEvent[] = [];
+    private nextEvent = 0;
+    // 最初のイベントで書き換える前の配置とパラメータ (restart で戻す)
+    private beforeEvents: EventBaseline | null = null;
+
+    // 餌を見つけて帰巣に移った回数 (累計)
+    discoveries = 0;
+    // 探索を諦めた回数 (累計)
+    giveUps = 0;
+    // 代謝: コロニーごとの蓄え (添字 = コロニー番号) と、死んだ・生まれた個体の数 (累計)
+    colonyStores: ColonyStore[] = [];
+    deaths = 0;
+    births = 0;
+    readonly metrics = new MetricsTracker();
+    // 発見ごとの興奮の連鎖
+    readonly cascades = new CascadeTracker();
+
+    // rules を渡すと、個体を作る前に行動ルールの設定を読み込む (代謝の初期の貯蔵などに効く)
+    constructor(params: Partial<SimParams> = {}, seed: number = randomSeed(), rules?: readonly RuleSetting[]) {
+        this.params = { ...DEFAULT_PARAMS, ...params };
+        if (rules) this.rules.setSettings(rules);
+        this.rng = new Rng(seed);
+        this.layoutRng = new Rng(deriveSeed(seed, LAYOUT_STREAM));
+        this.initGrids();
+        this.initNests();
+        this.initFoods();
+        this.initAgents();
+    }
+
+    get seed(): number {
+        return this.rng.seed;
+    }
+
+    // コロニー数に合わせてフェロモン層を作り直す
+    initGrids() {
+        this.grids = [];
+        for (let c = 0; c < this.colonyCount; c++) {
+            this.grids.push(new PheromoneGrid(WIDTH, HEIGHT, this.params, this.occupancy));
+        }
+    }
+
+    get colonyCount(): number {
+        return colonyCountOf(this.params);
+    }
+
+    // 生きている個体の数 (代謝ルールで生まれたり死んだりすると変わる)
+    get population(): number {
+        return this.agents.length - this.deadSlots.length;
+    }
+
+    resetPheromones() {
+        for (const grid of this.grids) grid.reset();
+    }
+
+    // そのコロニーの巣 (巣が1つも残っていなければ全ての巣)
+    coloniesNests(colony: number): Nest[] {
+        const own = this.nests.filter(n => n.colony === colony);
+        return own.length > 0 ? own : this.nests;
+    }
+
+    initNests() {
+        this.undoEvents();
+        this.nests = createNests(this.params, this.obstacles, this.layoutRng);
+    }
+
+    initFoods() {
+        this.undoEvents();
+        this.foodSources = createFoods(this.params, this.obstacles, this.layoutRng);
+        this.saveFoodLayout();
+    }
+
+    // 既存の餌場をすべてこの容量で満たし直す (0 なら無限)
+    setFoodCapacity(capacity: number) {
+        for (const f of this.foodSources) {
+            f.capacity = capacity;
+            f.amount = capacity;
+        }
+        this.saveFoodLayout();
+    }
+
+    // 今の餌場 (位置と残量) を、restart で戻す状態として覚える
+    // 餌場を外から差し替えたり編集したりしたら呼ぶ
+    saveFoodLayout() {
+        this.foodLayout = this.foodSources.map(f => ({ ...f }));
+    }
+
+    initMaze() {
+        this.undoEvents();
+        this.obstacles = createMaze(this.layoutRng);
+        this.rebuildOccupancy();
+    }
+
+    clearObstacles() {
+        this.undoEvents();
+        this.obstacles = [];
+        this.rebuildOccupancy();
+    }
+
+    // 実行中に壁を足す (イベントやエディタから)。下に残った匂いを消し、中に閉じ込められた個体を外へ出す
+    addObstacle(obstacle: Obstacle) {
+        this.obstacles.push(obstacle);
+        this.rebuildOccupancy();
+        this.clearPheromonesUnder(obstacle);
+        this.evictAgents(obstacle);
+    }
+
+    // 壁の中に残った匂いは誰も拾えないので消しておく
+    private clearPheromonesUnder(o: Obstacle) {
+        const x0 = Math.max(0, Math.floor(o.x));
+        const y0 = Math.max(0, Math.floor(o.y));
+        const x1 = Math.min(WIDTH, Math.ceil(o.x + o.w));
+        const y1 = Math.min(HEIGHT, Math.ceil(o.y + o.h));
+        for (const grid of this.grids) {
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const i = y * WIDTH + x;
+                    grid.homeGrid[i] = 0;
+                    grid.foodGrid[i] = 0;
+                    grid.repelGrid[i] = 0;
+                }
+            }
+        }
+    }
+
+    // 新しい壁の中に閉じ込められた個体を、いちばん近い辺のすぐ外へ出す
+    private evictAgents(o: Obstacle) {
+        for (const agent of this.agents) {
+            if (!isOnField(agent.state)) continue;
+            if (!(agent.x >= o.x && agent.x < o.x + o.w && agent.y >= o.y && agent.y < o.y + o.h)) continue;
+            const exits = [
+                { d: agent.x - o.x, x: o.x - 1, y: agent.y },
+                { d: o.x + o.w - agent.x, x: o.x + o.w + 1, y: agent.y },
+                { d: agent.y - o.y, x: agent.x, y: o.y - 1 },
+                { d: o.y + o.h - agent.y, x: agent.x, y: o.y + o.h + 1 }
+            ].filter(e => e.x >= 0 && e.x < WIDTH && e.y >= 0 && e.y < HEIGHT && !this.occupancy.isBlocked(e.x, e.y));
+            if (exits.length === 0) continue;
+            const exit = exits.reduce((a, b) => (b.d < a.d ? b : a));
+            agent.x = exit.x;
+            agent.y = exit.y;
+        }
+    }
+
+    rebuildOccupancy() {
+        this.occupancy.rebuild(this.obstacles);
+    }
+
+    // エージェント初期化: 各コロニーの個体を自分の巣の中 (待機) に置き、step内で徐々に出撃させる
+    initAgents() {
+        // ここから先は今の配置を基準にイベントを実行し直すので、前の実行のイベントの効果は戻しておく
+        this.undoEvents();
+        this.rng = new Rng(this.seed);
+        this.agents = [];
+        this.store.clear();
+        this.deadSlots = [];
+        if (this.grids.length !== this.colonyCount) this.initGrids();
+        for (let c = 0; c < this.colonyCount; c++) {
+            const nests = this.coloniesNests(c);
+            for (let i = 0; i < this.params.agentCount; i++) {
+                const nest = nests[i % nests.length];
+                const agent = new Agent(this.store, nest.x, nest.y, this.rng, c);
+                agent.enterNest(nest);
+                this.agents.push(agent);
+            }
+        }
+        this.spatial.clear();
+        this.spawnAccumulator = 0;
+        this.tick = 0;
+        this.nextEvent = 0;
+        this.discoveries = 0;
+        this.giveUps = 0;
+        const initialFood = this.rules.paramsOf('metabolism')?.initialFoodStore ?? 0;
+        this.colonyStores = Array.from({ length: this.colonyCount }, () => ({ food: initialFood, brood: 0 }));
+        this.deaths = 0;
+        this.births = 0;
+        for (const nest of this.nests) nest.delivered = 0;
+        this.metrics.reset();
+        this.cascades.reset();
+    }
+
+    // 乱数をシードから初期化し直し、フェロモンとエージェントを消して巣と餌場を再抽選する
+    // maze を指定すると迷路も同じ配置用の乱数列から生成し直す
+    reset(seed: number = this.seed, options: { maze?: boolean } = {}) {
+        this.undoEvents();
+        this.rng = new Rng(seed);
+        this.layoutRng = new Rng(deriveSeed(seed, LAYOUT_STREAM));
+        if (options.maze) this.initMaze();
+        this.initGrids();
+        this.initNests(); // 巣の位置も再抽選
+        this.initFoods();
+        this.initAgents();
+    }
+
+    // 配置 (巣・餌場・障害物) はそのままで、乱数・フェロモン・エージェントを初期状態に戻す
+    // 有限の餌場は食べられた分も、空になって消えたものも saveFoodLayout の時点に戻す
+    restart(seed: number = this.seed) {
+        this.undoEvents();
+        this.foodSources = this.foodLayout.map(f => ({ ...f, surgeTimer: 0 }));
+        this.rng = new Rng(seed);
+        this.layoutRng = new Rng(deriveSeed(seed, LAYOUT_STREAM));
+        this.initGrids();
+        for (const nest of this.nests) nest.surgeTimer = 0;
+        this.initAgents();
+    }
+
+    get scheduledEvents(): readonly SimEvent[] {
+        return this.events;
+    }
+
+    // 実行済みのイベント数
+    get appliedEventCount(): number {
+        return this.nextEvent;
+    }
+
+    // イベントを実行済みなら、その前の配置とパラメータ (実行していなければ null)
+    get eventBaseline(): EventBaseline | null {
+        return this.beforeEvents;
+    }
+
+    // setParam イベントで変えた項目だけをイベント前の値に戻したパラメータ
+    // (それ以外の項目は、途中で UI から変えた値をそのまま使う)
+    paramsBeforeEvents(): SimParams {
+        const params = { ...this.params };
+        const before = this.beforeEvents;
+        if (!before) return params;
+        for (const event of this.events.slice(0, this.nextEvent)) {
+            // @ts-ignore
+            if (event.type === 'setParam' && !isRuleKey(event.key)) params[event.key] = before.params[event.key];
+        }
+        return params;
+    }
+
+    // 行動ルールについて paramsBeforeEvents と同じことをした設定 ("id.key" の setParam イベントで変えた値だけを戻す)
+    rulesBeforeEvents(): RuleSetting[] {
+        const rules = this.rules.settings.map(r => ({ ...r, params: { ...r.params } }));
+        this.restoreRuleValues(rules);
+        return rules;
+    }
+
+    private restoreRuleValues(rules: RuleSetting[]) {
+        const before = this.beforeEvents;
+        if (!before) return;
+        for (const event of this.events.slice(0, this.nextEvent)) {
+            if (event.type !== 'setParam' || !isRuleKey(event.key)) continue;
+            const value = getRuleValue(before.rules, event.key);
+            if (value !== undefined) setRuleValue(rules, event.key, value);
+        }
+    }
+
+    // イベント予定を差し替える。現在のティックより前のものは実行済みとして扱う
+    setEvents(events: SimEvent[]) {
+        this.events = sortEvents(events);
+        this.nextEvent = 0;
+        while (this.nextEvent < this.events.length && this.events[this.nextEvent].tick < this.tick) this.nextEvent++;
+    }
+
+    // 1ティック進める
+    step() {
+        const params = this.params;
+
+        // このティックに予定されたイベント
+        while (this.nextEvent < this.events.length && this.events[this.nextEvent].tick <= this.tick) {
+            if (!this.beforeEvents) {
+                this.beforeEvents = {
+                    params: { ...this.params },
+                    rules: this.rules.settings.map(r => ({ ...r, params: { ...r.params } })),
+                    nests: this.nests.map(n => ({ ...n })),
+                    foodSources: this.foodSources.map(f => ({ ...f })),
+                    obstacles: this.obstacles.map(o => ({ ...o }))
+                };
+            }
+            applyEvent(this, this.events[this.nextEvent++]);
+        }
+
+        // タイマー更新
+        for (const nest of this.nests) {
+            if (nest.surgeTimer > 0) nest.surgeTimer--;
+        }
+
+        this.updateFoodSources();
+
+        // 巣からの段階的な出撃 (1ティックあたり spawnRate 回まで試行)
+        this.spawnAccumulator += params.spawnRate;
+        const attempts = Math.floor(this.spawnAccumulator);
+        this.spawnAccumulator -= attempts;
+        if (attempts > 0) this.sortie(attempts);
+
+        // 1. フェロモン蒸発
+        for (const grid of this.grids) {
+            grid.evaporate(params.homeEvaporationRate, params.foodEvaporationRate);
+            grid.diffuse(params.homeDiffusionRate, params.foodDiffusionRate);
+        }
+
+        // 2. エージェント更新
+        this.spatial.rebuild(this.store);
+        this.metrics.beginTick(this);
+
+        this.rules.beforeTick(this);
+        for (const agent of this.agents) {
+            if (!isOnField(agent.state)) continue;
+            this.rules.update(agent, this.spatial.cellOf(agent.x, agent.y));
+        }
+
+        this.tick++;
+        this.metrics.update(this);
+    }
+
+    // 巣に届いた餌を数え、代謝ルールが有効ならコロニーの貯蔵と幼虫に振り分ける
+    receiveFood(nest: Nest, amount: number) {
+        nest.delivered += amount;
+        const store = this.colonyStores[nest.colony];
+        if (!store || !this.rules.isEnabled('metabolism')) return;
+        const brood = amount * this.rules.paramsOf('metabolism')!.broodShare;
+        store.brood += brood;
+        store.food += amount - brood;
+    }
+
+    // エネルギーが尽きた個体を死なせ、行を空きとして覚える
+    killAgent(agent: Agent) {
+        agent.die();
+        this.deadSlots.push(agent.index);
+        this.deaths++;
+    }
+
+    // 巣で新しい個体を生む (死んだ個体の行があれば、最後に空いたものから使い回す)
+    spawnAgent(nest: Nest, colony: number): Agent {
+        const slot = this.deadSlots.pop();
+        let agent = slot !== undefined ? this.agents[slot] : undefined;
+        if (agent) {
+            agent.colony = colony;
+            agent.resetLife();
+        } else {
+            agent = new Agent(this.store, nest.x, nest.y, this.rng, colony);
+            this.agents.push(agent);
+        }
+        agent.enterNest(nest);
+        this.births++;
+        return agent;
+    }
+
+    // イベントで変えた配置と、setParam で変えたパラメータ (行動ルールの設定も) を元に戻す
+    // 配置やパラメータを作り直す処理はどれも、作り直す前にこれを呼ぶ (前の実行のイベントの効果を次に持ち越さない)
+    undoEvents() {
+        const before = this.beforeEvents;
+        if (!before) return;
+        Object.assign(this.params, this.paramsBeforeEvents());
+        // UI が設定のオブジェクトを持っているので、差し替えずにその場で戻す
+        this.restoreRuleValues(this.rules.settings);
+        this.nests = before.nests;
+        this.foodSources = before.foodSources;
+        this.obstacles = before.obstacles;
+        this.rebuildOccupancy();
+        this.beforeEvents = null;
+    }
+
+    // 有限の餌場の回復と、空になった餌場の除去
+    private updateFoodSources() {
+        const params = this.params;
+        if (params.foodRegrowthRate > 0) {
+            for (const f of this.foodSources) {
+                if (f.capacity > 0) f.amount = Math.min(f.capacity, f.amount + params.foodRegrowthRate);
+            }
+        }
+        // 空になった餌場があるときだけ配列を作り直す
+        if (params.removeDepletedFood && this.foodSources.some(isDepleted)) {
+            this.foodSources = this.foodSources.filter(f => !isDepleted(f));
+        }
+    }
+
+    // 巣で待機している個体を出撃させる
+    private sortie(attempts: number) {
+        const params = this.params;
+
+        const residents = new Map<Nest, Agent[]>();
+        for (const agent of this.agents) {
+            if (agent.state !== AgentState.IN_NEST) continue;
+            // エディタで巣が消された場合は同じコロニーの別の巣に移す
+            if (!agent.nest || !this.nests.includes(agent.nest)) agent.nest = this.coloniesNests(agent.colony)[0];
+            if (!residents.has(agent.nest)) residents.set(agent.nest, []);
+            residents.get(agent.nest)!.push(agent);
+        }
+        const candidates = [...residents.keys()];
+
+        for (let i = 0; i < attempts && candidates.length > 0; i++) {
+            const k = Math.floor(this.rng.next() * candidates.length);
+            const nest = candidates[k];
+
+            // 規則B: 出撃制御 (Wait and Surge)
+            if (params.enableSortieRegulation && nest.surgeTimer <= 0) {
+                // 待機中: 偵察、または入り口の匂いに誘われた個体のみ
+                const chance = params.sortieScoutChance + params.sortiePheromoneGain * this.entrancePheromone(nest);
+                if (this.rng.next() > chance) {
+                    continue;
+                }
+            }
+
+            const waiting = residents.get(nest)!;
+            waiting.pop()!.leaveNest(this.rng);
+            if (waiting.length === 0) candidates.splice(k, 1);
+        }
+    }
+
+    // 巣の入り口 (縁のすぐ外側) の、その巣のコロニーの「餌への道しるべ」の平均濃度
+    entrancePheromone(nest: Nest): number {
+        const grid = this.grids[nest.colony] ?? this.grids[0];
+        const samples = 8;
+        let sum = 0;
+        let count = 0;
+        for (let i = 0; i < samples; i++) {
+            const a = (i / samples) * Math.PI * 2;
+            const level = grid.getLevel(
+                nest.x + Math.cos(a) * (nest.r + 5),
+                nest.y + Math.sin(a) * (nest.r + 5),
+                PheromoneType.FOOD
+            );
+            if (level < 0) continue; // 範囲外
+            sum += level;
+            count++;
+        }
+        return count > 0 ? sum / count : 0;
+    }
+
+    getStats(): SimStats {
+        let foraging = 0;
+        let returning = 0;
+        let returningHome = 0;
+        let inNest = 0;
+        let dead = 0;
+        const colonies: ColonyStats[] = Array.from({ length: this.colonyCount }, (_, c) => (
+            { total: 0, outside: 0, returning: 0, delivered: 0, stored: this.colonyStores[c]?.food ?? 0 }
+        ));
+        let excited2 = 0;
+        let excited1 = 0;
+
+        for (const agent of this.agents) {
+            if (agent.state === AgentState.FORAGING) foraging++;
+            else if (agent.state === AgentState.RETURNING) returning++;
+            else if (agent.state === AgentState.RETURNING_HOME) returningHome++;
+            else if (agent.state === AgentState.IN_NEST) inNest++;
+            else {
+                dead++;
+                continue;
+            }
+
+            const colony = colonies[agent.colony];
+            if (colony) {
+                colony.total++;
+                if (isOnField(agent.state)) colony.outside++;
+                if (agent.state === AgentState.RETURNING) colony.returning++;
+            }
+
+            if (agent.excitedLevel === 2) excited2++;
+            else if (agent.excitedLevel === 1) excited1++;
+        }
+
+        for (const nest of this.nests) {
+            if (colonies[nest.colony]) colonies[nest.colony].delivered += nest.delivered;
+        }
+
+        return {
+            tick: this.tick,
+            total: this.agents.length - dead,
+            foraging,
+            returning,
+            returningHome,
+            inNest,
+            excited2,
+            excited1,
+            giveUps: this.giveUps,
+            deaths: this.deaths,
+            births: this.births,
+            deliveriesPerNest: this.nests.map(n => n.delivered),
+            foodRemaining: this.foodSources.reduce((sum, f) => sum + (f.capacity > 0 ? Math.floor(f.amount) : 0), 0),
+            colonies
+        };
+    }
+
+    // 直近ステップの集中・撤退指標 (まだ1ステップも進めていなければ null)
+    getMetrics(): TickMetrics | null {
+        return this.metrics.latest;
+    }
+
+    getAgentSnapshots(): AgentSnapshot[] {
+        return this.agents.map(a => ({
+            x: a.x,
+            y: a.y,
+            angle: a.angle,
+            state: a.state,
+            excitedLevel: a.excitedLevel
+        }));
+    }
+}
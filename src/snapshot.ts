@@ -0,0 +1,140 @@
+import { AgentState, isOnField } from './config';
+import type { Agent } from './agent';
+import type { TickMetrics } from './metrics';
+import type { CascadeSummary } from './cascade';
+import type { SimStats, Simulation } from './simulation';
+import type { FoodSource, Nest, Obstacle } from './world';
+
+// 描画に必要な1フレーム分の状態
+// Worker から転送するときは型付き配列を複製して ArrayBuffer ごと渡す (transferable)
+
+export interface AgentBuffers {
+    count: number;
+    x: Float32Array | Float64Array;
+    y: Float32Array | Float64Array;
+    state: Uint8Array;
+    excitedLevel: Uint8Array;
+    colony: Uint8Array;
+}
+
+export interface PheromoneLayers {
+    home: Float32Array;
+    food: Float32Array;
+    repel: Float32Array;
+}
+
+// 観察中の1個体の詳細 (インスペクタ用)
+export interface AgentDetails {
+    index: number;
+    x: number;
+    y: number;
+    angle: number; // 進行方向 (ラジアン)
+    state: AgentState;
+    excitedLevel: number;
+    searchTime: number;
+    givingUp: boolean;
+    pheromoneStrength: number;
+    carrying: number;
+    energy: number; // 満タンが 1
+    colony: number;
+    cascadeId: number;    // 興奮しているときだけ意味を持つ
+    cascadeDepth: number;
+    excitedBy: number;
+    sensors: [number, number, number]; // 直近の sense() の [左, 正面, 右]
+}
+
+export interface FrameSnapshot {
+    stats: SimStats;
+    metrics: TickMetrics | null;
+    cascades: CascadeSummary | null; // リプレイでは null
+    agents: AgentBuffers;
+    pheromones: PheromoneLayers[]; // コロニーごと
+    density: Int32Array;           // 空間ハッシュのセルごとの個体数
+    nests: Nest[];
+    foodSources: FoodSource[];
+    obstacles: Obstacle[];
+    inspected: AgentDetails | null;
+}
+
+// copy が false ならシミュレーションの配列をそのまま参照する (同じスレッドで描画する場合)
+// inspect: 詳細を含める個体の添字
+export function captureFrame(sim: Simulation, copy: boolean, inspect: number | null = null): FrameSnapshot {
+    const store = sim.store;
+    const n = store.count;
+    const agents: AgentBuffers = copy
+        ? {
+            count: n,
+            x: Float32Array.from(store.x.subarray(0, n)),
+            y: Float32Array.from(store.y.subarray(0, n)),
+            state: store.state.slice(0, n),
+            excitedLevel: store.excitedLevel.slice(0, n),
+            colony: store.colony.slice(0, n)
+        }
+        : {
+            count: n,
+            x: store.x,
+            y: store.y,
+            state: store.state,
+            excitedLevel: store.excitedLevel,
+            colony: store.colony
+        };
+
+    return {
+        stats: sim.getStats(),
+        metrics: sim.getMetrics(),
+        cascades: sim.cascades.summary,
+        agents,
+        pheromones: sim.grids.map(grid => copy
+            ? { home: grid.homeGrid.slice(), food: grid.foodGrid.slice(), repel: grid.repelGrid.slice() }
+            : { home: grid.homeGrid, food: grid.foodGrid, repel: grid.repelGrid }),
+        density: copy ? sim.spatial.counts.slice() : sim.spatial.counts,
+        nests: copy ? sim.nests.map(n => ({ ...n })) : sim.nests,
+        foodSources: copy ? sim.foodSources.map(f => ({ ...f })) : sim.foodSources,
+        obstacles: copy ? sim.obstacles.map(o => ({ ...o })) : sim.obstacles,
+        inspected: inspect !== null && sim.agents[inspect] ? describeAgent(sim.agents[inspect]) : null
+    };
+}
+
+export function describeAgent(agent: Agent): AgentDetails {
+    return {
+        index: agent.index,
+        x: agent.x,
+        y: agent.y,
+        angle: agent.angle,
+        state: agent.state,
+        excitedLevel: agent.excitedLevel,
+        searchTime: agent.searchTime,
+        givingUp: agent.givingUp,
+        pheromoneStrength: agent.pheromoneStrength,
+        carrying: agent.carrying,
+        energy: agent.energy,
+        colony: agent.colony,
+        cascadeId: agent.cascadeId,
+        cascadeDepth: agent.cascadeDepth,
+        excitedBy: agent.excitedBy,
+        sensors: agent.lastSensors
+    };
+}
+
+// (x, y) から radius 以内で最も近い、巣の外にいる個体の添字
+export function findAgentAt(agents: AgentBuffers, x: number, y: number, radius: number): number | null {
+    let best: number | null = null;
+    let bestDist = radius;
+    for (let i = 0; i < agents.count; i++) {
+        if (!isOnField(agents.state[i])) continue;
+        const d = Math.hypot(agents.x[i] - x, agents.y[i] - y);
+        if (d <= bestDist) {
+            bestDist = d;
+            best = i;
+        }
+    }
+    return best;
+}
+
+// postMessage で所有権ごと渡す ArrayBuffer の一覧 (captureFrame(sim, true) の結果にだけ使う)
+export function frameTransferables(frame: FrameSnapshot): ArrayBuffer[] {
+    const a = frame.agents;
+    const buffers = [a.x, a.y, a.state, a.excitedLevel, a.colony, frame.density].map(arr => arr.buffer);
+    for (const layer of frame.pheromones) buffers.push(layer.home.buffer, layer.food.buffer, layer.repel.buffer);
+    return buffers as ArrayBuffer[];
+}
@@ -0,0 +1,123 @@
+import { isOnField } from './config';
+import type { AgentStore } from './agent-store';
+
+// 接触判定・密度マップ用の空間ハッシュ (一様グリッド)
+// 毎ティック counting sort で作り直すが、配列は使い回すのでフレームごとの確保はない
+export class SpatialHash {
+    readonly cols: number;
+    readonly rows: number;
+    readonly cellSize: number;
+
+    // セルごとの個体数 (巣の中の個体は数えない)
+    readonly counts: Int32Array;
+    // セルにいるコロニーのビット集合 (bit c = コロニー c の個体がいる)
+    readonly colonyMask: Uint8Array;
+    // セル i にいる個体の添字は members[cellStart[i] .. cellStart[i + 1])
+    readonly cellStart: Int32Array;
+    members = new Int32Array(0);
+    // 同様に、興奮を伝えられる個体 (発信源) だけの索引 (rebuildSources で作る)
+    // 発見個体 (段数 0) と、伝播で興奮した個体のうち段数が cascadeLevels 未満のもの
+    readonly sourceStart: Int32Array;
+    sources = new Int32Array(0);
+
+    private cellOfAgent = new Int32Array(0);
+    private indexedCount = 0;         // rebuild したときの個体数
+    private cursor: Int32Array;       // 詰め込み中の書き込み位置
+    private sourceCursor: Int32Array;
+
+    constructor(width: number, height: number, cellSize: number) {
+        this.cellSize = cellSize;
+        this.cols = Math.ceil(width / cellSize);
+        this.rows = Math.ceil(height / cellSize);
+        const cells = this.cols * this.rows;
+        this.counts = new Int32Array(cells);
+        this.colonyMask = new Uint8Array(cells);
+        this.cellStart = new Int32Array(cells + 1);
+        this.sourceStart = new Int32Array(cells + 1);
+        this.cursor = new Int32Array(cells);
+        this.sourceCursor = new Int32Array(cells);
+    }
+
+    get cellCount(): number {
+        return this.cols * this.rows;
+    }
+
+    // 画面外の座標は端のセルに丸める
+    cellOf(x: number, y: number): number {
+        const cx = Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+        const cy = Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+        return cy * this.cols + cx;
+    }
+
+    clear() {
+        this.counts.fill(0);
+        this.colonyMask.fill(0);
+        this.cellStart.fill(0);
+        this.sourceStart.fill(0);
+    }
+
+    rebuild(store: AgentStore) {
+        const n = store.count;
+        if (this.cellOfAgent.length < n) {
+            this.cellOfAgent = new Int32Array(store.capacity);
+            this.members = new Int32Array(store.capacity);
+            this.sources = new Int32Array(store.capacity);
+        }
+        this.clear();
+        this.indexedCount = n;
+
+        // 1. セルごとに数える
+        for (let i = 0; i < n; i++) {
+            if (!isOnField(store.state[i])) {
+                this.cellOfAgent[i] = -1;
+                continue;
+            }
+            const cell = this.cellOf(store.x[i], store.y[i]);
+            this.cellOfAgent[i] = cell;
+            this.counts[cell]++;
+            this.colonyMask[cell] |= 1 << store.colony[i];
+        }
+
+        // 2. 累積和で各セルの開始位置を決める
+        const cells = this.cellCount;
+        for (let c = 0; c < cells; c++) {
+            this.cellStart[c + 1] = this.cellStart[c] + this.counts[c];
+        }
+
+        // 3. 添字の小さい順に詰める (sim.agents の並び順を保つ)
+        const fill = this.cursor;
+        fill.set(this.cellStart.subarray(0, cells));
+        for (let i = 0; i < n; i++) {
+            const cell = this.cellOfAgent[i];
+            if (cell < 0) continue;
+            this.members[fill[cell]++] = i;
+        }
+    }
+
+    // 発信源の索引を作り直す。rebuild と同じ時点の個体の位置を使う
+    // 段数の設定は接触伝播ルールが持つので、そのルールが毎ティック (個体を動かす前に) 呼ぶ
+    rebuildSources(store: AgentStore, cascadeLevels: number) {
+        const n = this.indexedCount;
+        const sourceCounts = this.sourceStart;
+        sourceCounts.fill(0);
+        for (let i = 0; i < n; i++) {
+            const cell = this.cellOfAgent[i];
+            if (cell >= 0 && isSource(store, i, cascadeLevels)) sourceCounts[cell + 1]++;
+        }
+        const cells = this.cellCount;
+        for (let c = 0; c < cells; c++) {
+            this.sourceStart[c + 1] += this.sourceStart[c];
+        }
+        const sourceFill = this.sourceCursor;
+        sourceFill.set(this.sourceStart.subarray(0, cells));
+        for (let i = 0; i < n; i++) {
+            const cell = this.cellOfAgent[i];
+            if (cell >= 0 && isSource(store, i, cascadeLevels)) this.sources[sourceFill[cell]++] = i;
+        }
+    }
+}
+
+// 興奮を伝えられるか (発見個体か、段数が cascadeLevels 未満の伝播個体)
+export function isSource(store: AgentStore, i: number, cascadeLevels: number): boolean {
+    return store.excitedLevel[i] > 0 && store.cascadeDepth[i] < cascadeLevels;
+}
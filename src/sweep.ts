@@ -0,0 +1,228 @@
+import { DEFAULT_PARAMS, type SimParams } from './config';
+import { DEFAULT_METRICS_SETTINGS, type MetricsSettings } from './metrics';
+import { defaultRuleSettings, isRuleKey, ruleValueType, setRuleValue } from './rule-pipeline';
+import { Simulation } from './simulation';
+
+// パラメータスイープ: 指定した SimParams の組み合わせ × 複数シードを描画なしで実行する
+
+// 上書きする値。キーは SimParams の項目名、または行動ルールの "id.key" (パラメータ) / "id.enabled" (有効/無効)
+export type ParamOverrides = Record<string, number | boolean>;
+
+// 値の列挙、または数値の範囲 (from から to まで step 刻み、to を含む)
+export type SweepRange =
+    | (number | boolean)[]
+    | { from: number; to: number; step: number };
+
+export interface SweepSpec {
+    base?: ParamOverrides;                                  // 全実行に共通の上書き
+    ranges: Record<string, SweepRange>;                     // 掛け合わせる範囲 (キーは ParamOverrides と同じ)
+    seeds: number | number[];                               // 反復数 (1, 2, ... を使う) またはシードの列挙
+    ticks: number;                                          // 1実行あたりのティック数
+    maze?: boolean;                                         // 各実行で迷路を生成する
+    metrics?: Partial<MetricsSettings>;
+}
+
+export interface SweepResult {
+    run: number;
+    seed: number;
+    overrides: ParamOverrides; // ranges から決まった値
+    ticks: number;
+    foodDelivered: number;
+    foodRemaining: number;
+    discoveries: number;
+    giveUps: number;
+    firstDiscoveryTick: number | null;
+    withdrawalTick: number | null;
+    finalOnTrailFraction: number;
+    finalGini: number;
+    finalEntropy: number;
+    recruited: number;       // 伝播で興奮した延べ個体数
+    maxCascadeSize: number;  // 1回の発見から興奮した個体数の最大
+    maxCascadeDepth: number; // 興奮が伝わった段数の最大
+    finalPopulation: number;   // 最後に生きていた個体数
+    survivingColonies: number; // 最後に1体でも生きていたコロニーの数
+    deaths: number;
+    births: number;
+}
+
+// 不正な指定なら Error を投げる (JSON から読んだ spec をそのまま渡してよい)
+export function validateSweepSpec(spec: SweepSpec) {
+    if (typeof spec !== 'object' || spec === null) throw new Error('Sweep spec must be a JSON object');
+    validateParamOverrides(spec.base);
+    const ranges = spec.ranges as Record<string, unknown> | undefined;
+    if (typeof ranges !== 'object' || ranges === null) throw new Error('Sweep spec needs ranges');
+    for (const [key, range] of Object.entries(ranges)) {
+        const type = overrideType(key);
+        if (Array.isArray(range)) {
+            if (range.length === 0) throw new Error(`Empty range for ${key}`);
+            if (range.some(v => typeof v !== type)) throw new Error(`Range for ${key} must be ${type} values`);
+        } else {
+            const r = range as Partial<Record<'from' | 'to' | 'step', unknown>> | null;
+            if (type !== 'number' || typeof r !== 'object' || r === null ||
+                typeof r.from !== 'number' || typeof r.to !== 'number' || typeof r.step !== 'number') {
+                throw new Error(`Invalid range for ${key}`);
+            }
+            if (!(r.step > 0)) throw new Error(`Invalid step for ${key}: ${r.step}`);
+        }
+    }
+    validateSeeds(spec.seeds);
+    if (!Number.isInteger(spec.ticks) || spec.ticks <= 0) throw new Error(`Invalid ticks: ${spec.ticks}`);
+    if (spec.maze !== undefined && typeof spec.maze !== 'boolean') throw new Error('maze must be true or false');
+    const metrics = spec.metrics as Record<string, unknown> | undefined;
+    if (metrics !== undefined) {
+        if (typeof metrics !== 'object' || metrics === null) throw new Error('metrics must be an object');
+        for (const [key, value] of Object.entries(metrics)) {
+            if (!Object.hasOwn(DEFAULT_METRICS_SETTINGS, key)) throw new Error(`Unknown metrics setting: ${key}`);
+            if (typeof value !== 'number' || !isFinite(value)) throw new Error(`Invalid metrics.${key}: ${value}`);
+        }
+    }
+}
+
+// 上書きできる項目の値の型。知らない項目なら Error を投げる
+export function overrideType(key: string): 'number' | 'boolean' {
+    if (isRuleKey(key)) return ruleValueType(key);
+    if (!Object.hasOwn(DEFAULT_PARAMS, key)) throw new Error(`Unknown parameter: ${key}`);
+    return typeof DEFAULT_PARAMS[key as keyof SimParams] as 'number' | 'boolean';
+}
+
+// base のような上書きを調べる (知らない項目や型の違う値は Error)
+export function validateParamOverrides(overrides: unknown) {
+    if (overrides === undefined) return;
+    if (typeof overrides !== 'object' || overrides === null) throw new Error('base must be an object');
+    for (const [key, value] of Object.entries(overrides)) {
+        const type = overrideType(key);
+        if (typeof value !== type || (type === 'number' && !isFinite(value as number))) {
+            throw new Error(`Invalid value for ${key}: ${value}`);
+        }
+    }
+}
+
+// 反復数は正の整数、列挙なら1つ以上のシード
+export function validateSeeds(seeds: unknown) {
+    if (Array.isArray(seeds)) {
+        if (seeds.length === 0) throw new Error('seeds must not be empty');
+        if (seeds.some(s => !Number.isInteger(s) || s < 0)) throw new Error('seeds must be non-negative integers');
+    } else if (!Number.isInteger(seeds) || (seeds as number) <= 0) {
+        throw new Error(`Invalid seeds: ${seeds}`);
+    }
+}
+
+function expandRange(key: string, range: SweepRange): (number | boolean)[] {
+    if (Array.isArray(range)) return range;
+    const { from, to, step } = range;
+    if (!(step > 0)) throw new Error(`Invalid step for ${key}: ${step}`);
+    const values: number[] = [];
+    // 浮動小数点の誤差で to を取りこぼさないように少し余裕を持たせる
+    for (let i = 0; from + i * step <= to + step * 1e-9; i++) {
+        values.push(parseFloat((from + i * step).toPrecision(12)));
+    }
+    return values;
+}
+
+// ranges の直積を列挙する
+export function expandGrid(ranges: SweepSpec['ranges']): ParamOverrides[] {
+    let combos: ParamOverrides[] = [{}];
+    for (const [key, range] of Object.entries(ranges)) {
+        overrideType(key); // 知らない項目なら Error
+        const values = expandRange(key, range);
+        const expanded: ParamOverrides[] = [];
+        for (const combo of combos) {
+            for (const value of values) {
+                expanded.push({ ...combo, [key]: value });
+            }
+        }
+        combos = expanded;
+    }
+    return combos;
+}
+
+export function sweepSeeds(seeds: SweepSpec['seeds']): number[] {
+    return Array.isArray(seeds) ? seeds : Array.from({ length: seeds }, (_, i) => i + 1);
+}
+
+// 上書きを SimParams と行動ルールの設定に振り分けて Simulation を作る
+export function createSimulation(overrides: ParamOverrides, seed: number): Simulation {
+    const params: Record<string, number | boolean> = {};
+    const rules = defaultRuleSettings();
+    for (const [key, value] of Object.entries(overrides)) {
+        if (isRuleKey(key)) setRuleValue(rules, key, value);
+        else params[key] = value;
+    }
+    return new Simulation(params as Partial<SimParams>, seed, rules);
+}
+
+export function runSingle(overrides: ParamOverrides, seed: number, spec: SweepSpec, run: number): SweepResult {
+    const sim = createSimulation({ ...spec.base, ...overrides }, seed);
+    Object.assign(sim.metrics.settings, spec.metrics);
+    if (spec.maze) sim.reset(seed, { maze: true });
+
+    for (let t = 0; t < spec.ticks; t++) {
+        sim.step();
+    }
+
+    const metrics = sim.getMetrics();
+    const cascades = sim.cascades.summary;
+    const stats = sim.getStats();
+    return {
+        run,
+        seed,
+        overrides,
+        ticks: sim.tick,
+        foodDelivered: sim.nests.reduce((sum, n) => sum + n.delivered, 0),
+        foodRemaining: stats.foodRemaining,
+        discoveries: sim.discoveries,
+        giveUps: sim.giveUps,
+        firstDiscoveryTick: metrics?.firstDiscoveryTick ?? null,
+        withdrawalTick: metrics?.withdrawalTick ?? null,
+        finalOnTrailFraction: metrics?.onTrailFraction ?? 0,
+        finalGini: metrics?.gini ?? 0,
+        finalEntropy: metrics?.entropy ?? 0,
+        recruited: cascades.recruited,
+        maxCascadeSize: cascades.maxSize,
+        maxCascadeDepth: cascades.maxDepth,
+        finalPopulation: stats.total,
+        survivingColonies: stats.colonies.filter(c => c.total > 0).length,
+        deaths: stats.deaths,
+        births: stats.births
+    };
+}
+
+// 全組み合わせを順に実行する。onResult で1実行ごとに結果を受け取れる
+export function runSweep(spec: SweepSpec, onResult?: (result: SweepResult, total: number) => void): SweepResult[] {
+    validateSweepSpec(spec);
+    const combos = expandGrid(spec.ranges);
+    const seeds = sweepSeeds(spec.seeds);
+    const total = combos.length * seeds.length;
+    const results: SweepResult[] = [];
+
+    for (const overrides of combos) {
+        for (const seed of seeds) {
+            const result = runSingle(overrides, seed, spec, results.length);
+            results.push(result);
+            onResult?.(result, total);
+        }
+    }
+    return results;
+}
+
+// 1行1実行の結果表 (スイープ対象のパラメータは列として展開する)
+export function sweepResultsToCSV(spec: SweepSpec, results: SweepResult[]): string {
+    const keys = Object.keys(spec.ranges);
+    const header = [
+        'run', 'seed', ...keys, 'ticks', 'foodDelivered', 'foodRemaining', 'discoveries', 'giveUps',
+        'firstDiscoveryTick', 'withdrawalTick', 'finalOnTrailFraction', 'finalGini', 'finalEntropy',
+        'recruited', 'maxCascadeSize', 'maxCascadeDepth',
+        'finalPopulation', 'survivingColonies', 'deaths', 'births'
+    ];
+    const lines = [header.join(',')];
+    for (const r of results) {
+        lines.push([
+            r.run, r.seed, ...keys.map(k => r.overrides[k]), r.ticks, r.foodDelivered, r.foodRemaining, r.discoveries, r.giveUps,
+            r.firstDiscoveryTick ?? '', r.withdrawalTick ?? '',
+            r.finalOnTrailFraction.toFixed(4), r.finalGini.toFixed(4), r.finalEntropy.toFixed(4),
+            r.recruited, r.maxCascadeSize, r.maxCascadeDepth,
+            r.finalPopulation, r.survivingColonies, r.deaths, r.births
+        ].join(','));
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,93 @@
+import type { SimParams } from './config';
+import type { SimStats } from './simulation';
+import { ruleSettingEntries, type RuleSetting } from './rule-pipeline';
+
+// 統計パネルの値をティックごとに記録し、グラフ表示と CSV 書き出しに使う
+
+export type SeriesKey =
+    'total' | 'foraging' | 'returning' | 'returningHome' | 'inNest' | 'excited2' | 'excited1' | 'giveUps' |
+    'foodRemaining' | 'deaths' | 'births';
+
+export const SERIES_KEYS: readonly SeriesKey[] = [
+    'total', 'foraging', 'returning', 'returningHome', 'inNest', 'excited2', 'excited1', 'giveUps', 'foodRemaining',
+    'deaths', 'births'
+];
+
+// 記録する行数の上限。超えたら記録の間隔を倍にして、記録済みの行も同じ間隔に間引く
+// (長い実行や高速再生でもメモリが増え続けない。古い区間も新しい区間も同じ間隔で残る)
+export const MAX_TIMESERIES_ROWS = 20000;
+
+export class TimeSeriesRecorder {
+    rows: SimStats[] = [];
+    // stride の倍数のティックだけを記録する
+    stride = 1;
+    readonly maxRows: number;
+
+    constructor(maxRows: number = MAX_TIMESERIES_ROWS) {
+        this.maxRows = maxRows;
+    }
+
+    clear() {
+        this.rows = [];
+        this.stride = 1;
+    }
+
+    // このティックの統計を記録するか (記録しないティックは getStats を呼ばずに済ませられる)
+    accepts(tick: number): boolean {
+        const last = this.rows[this.rows.length - 1];
+        return (last !== undefined && tick <= last.tick) || tick % this.stride === 0;
+    }
+
+    record(stats: SimStats) {
+        // ティックが巻き戻った (リセットされた) ら記録し直す
+        const last = this.rows[this.rows.length - 1];
+        if (last && stats.tick <= last.tick) this.clear();
+        if (stats.tick % this.stride !== 0) return;
+        this.rows.push(stats);
+        if (this.rows.length > this.maxRows) {
+            this.stride *= 2;
+            this.rows = this.rows.filter(row => row.tick % this.stride === 0);
+        }
+    }
+
+    // 巣の数は途中で変わりうるので、記録中の最大数に合わせて列を作る
+    nestColumnCount(): number {
+        let n = 0;
+        for (const row of this.rows) n = Math.max(n, row.deliveriesPerNest.length);
+        return n;
+    }
+
+    colonyColumnCount(): number {
+        let n = 0;
+        for (const row of this.rows) n = Math.max(n, row.colonies.length);
+        return n;
+    }
+
+    // 先頭に "# key=value" 形式でパラメータと行動ルールの設定 ("# id.enabled=" / "# id.key=") を書き込んだ CSV
+    toCSV(params: SimParams, rules: readonly RuleSetting[], seed: number): string {
+        const lines: string[] = [];
+        lines.push(`# seed=${seed}`);
+        lines.push(`# stride=${this.stride}`);
+        for (const [key, value] of Object.entries(params)) {
+            lines.push(`# ${key}=${value}`);
+        }
+        for (const [name, value] of ruleSettingEntries(rules)) lines.push(`# ${name}=${value}`);
+
+        const nestCount = this.nestColumnCount();
+        const nestHeaders = Array.from({ length: nestCount }, (_, i) => `delivered_nest${i}`);
+        // コロニーが1つだけのときは総計と同じなので列を出さない
+        const colonyCount = this.colonyColumnCount();
+        const colonyIdx = colonyCount > 1 ? Array.from({ length: colonyCount }, (_, i) => i) : [];
+        const colonyHeaders = colonyIdx.flatMap(i => [`total_colony${i}`, `outside_colony${i}`, `delivered_colony${i}`]);
+        lines.push(['tick', ...SERIES_KEYS, ...nestHeaders, ...colonyHeaders].join(','));
+
+        for (const row of this.rows) {
+            const nestValues = Array.from({ length: nestCount }, (_, i) => row.deliveriesPerNest[i] ?? '');
+            const colonyValues = colonyIdx.flatMap(i => [
+                row.colonies[i]?.total ?? '', row.colonies[i]?.outside ?? '', row.colonies[i]?.delivered ?? ''
+            ]);
+            lines.push([row.tick, ...SERIES_KEYS.map(k => row[k]), ...nestValues, ...colonyValues].join(','));
+        }
+        return lines.join('\n') + '\n';
+    }
+}
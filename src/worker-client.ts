@@ -0,0 +1,83 @@
+import type { SimParams } from './config';
+import type { BenchmarkResult } from './benchmark';
+import type { MetricsSettings } from './metrics';
+import type { SimStats } from './simulation';
+import type { Scenario } from './scenario';
+import type { FrameSnapshot } from './snapshot';
+import type { RuleSetting } from './rule-pipeline';
+import type { WorkerRequest, WorkerResponse } from './worker-protocol';
+
+export interface WorkerFrame {
+    frame: FrameSnapshot;
+    history: SimStats[]; // 進めたティックのうち statsStride の倍数のティックの統計
+}
+
+// sim.worker.ts をメインスレッドから使うためのラッパー
+// フレームは1つずつ要求する (前の応答が来るまで次を送らないので、描画が追いつかなくても溜まらない)
+export class SimWorkerClient {
+    private worker = new Worker(new URL('./sim.worker.ts', import.meta.url), { type: 'module' });
+    private pendingFrame: { resolve: (result: WorkerFrame) => void; reject: (error: Error) => void } | null = null;
+    private pendingBenchmark: { resolve: (result: BenchmarkResult) => void; reject: (error: Error) => void } | null = null;
+
+    constructor() {
+        this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+            const res = e.data;
+            if (res.type === 'frame') {
+                const pending = this.pendingFrame;
+                this.pendingFrame = null;
+                pending?.resolve({ frame: res.frame, history: res.history });
+            } else {
+                const pending = this.pendingBenchmark;
+                this.pendingBenchmark = null;
+                pending?.resolve(res.result);
+            }
+        };
+        // Worker の中で例外が起きたら、待っているフレームとベンチマークを失敗させる
+        this.worker.onerror = (e: ErrorEvent) => {
+            const error = new Error(e.message || 'Worker error');
+            const frame = this.pendingFrame;
+            const benchmark = this.pendingBenchmark;
+            this.pendingFrame = null;
+            this.pendingBenchmark = null;
+            frame?.reject(error);
+            benchmark?.reject(error);
+        };
+    }
+
+    get busy(): boolean {
+        return this.pendingFrame !== null;
+    }
+
+    start(scenario: Scenario) {
+        this.post({ type: 'start', scenario });
+    }
+
+    requestFrame(
+        ticks: number, params: Partial<SimParams>, rules: readonly RuleSetting[] | null, metrics: MetricsSettings,
+        statsStride: number, inspect: number | null = null
+    ): Promise<WorkerFrame> {
+        return new Promise((resolve, reject) => {
+            this.pendingFrame = { resolve, reject };
+            this.post({ type: 'frame', ticks, params: { ...params }, rules: rules && [...rules], metrics: { ...metrics }, statsStride, inspect });
+        });
+    }
+
+    setFoodCapacity(capacity: number) {
+        this.post({ type: 'setFoodCapacity', capacity });
+    }
+
+    benchmark(scenario: Scenario, ticks: number): Promise<BenchmarkResult> {
+        return new Promise((resolve, reject) => {
+            this.pendingBenchmark = { resolve, reject };
+            this.post({ type: 'benchmark', scenario, ticks });
+        });
+    }
+
+    terminate() {
+        this.worker.terminate();
+    }
+
+    private post(message: WorkerRequest) {
+        this.worker.postMessage(message);
+    }
+}
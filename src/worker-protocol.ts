@@ -0,0 +1,29 @@
+import type { SimParams } from './config';
+import type { SimStats } from './simulation';
+import type { BenchmarkResult } from './benchmark';
+import type { MetricsSettings } from './metrics';
+import type { Scenario } from './scenario';
+import type { FrameSnapshot } from './snapshot';
+import type { RuleSetting } from './rule-pipeline';
+
+// メインスレッドと sim.worker.ts の間のメッセージ
+
+export type WorkerRequest =
+    // シナリオの配置・パラメータ・シードで最初から実行し直す
+    | { type: 'start'; scenario: Scenario }
+    // UI で変えた params と行動ルールを反映してから ticks ティック進め、フレームを返す (inspect: 詳細を含める個体の添字)
+    // params は変わった項目だけ、rules は変わったときだけ送る (イベントで変えた値を上書きしないように)
+    | {
+        type: 'frame'; ticks: number; params: Partial<SimParams>; rules: RuleSetting[] | null; metrics: MetricsSettings;
+        statsStride: number; // history に入れるティックの間隔 (時系列の記録の間隔)
+        inspect: number | null;
+    }
+    // 既存の餌場をすべてこの容量で満たし直す (UI の容量スライダー)
+    | { type: 'setFoodCapacity'; capacity: number }
+    // シナリオを別のシミュレーションで ticks ティック回して速さを測る (実行中の状態には影響しない)
+    | { type: 'benchmark'; scenario: Scenario; ticks: number };
+
+export type WorkerResponse =
+    // history: 進めたティックのうち statsStride の倍数のティックの統計 (時系列の記録用)
+    | { type: 'frame'; frame: FrameSnapshot; history: SimStats[] }
+    | { type: 'benchmark'; result: BenchmarkResult };
@@ -0,0 +1,137 @@
+import { WIDTH, HEIGHT, colonyCountOf, type SimParams } from './config';
+import type { Rng } from './rng';
+
+// 巣の情報
+export interface Nest {
+    x: number;
+    y: number;
+    r: number;
+    surgeTimer: number;
+    delivered: number; // 持ち帰られた餌の量 (累計)
+    colony: number;    // 所属するコロニー
+}
+
+export interface FoodSource {
+    x: number;
+    y: number;
+    r: number;
+    surgeTimer: number;
+    capacity: number; // 餌の最大量 (0 なら無限)
+    amount: number;   // 残っている餌の量
+    quality: number;  // 餌の質 (持ち帰るときのフェロモン強度の倍率。1 が標準)
+}
+
+export function createFoodSource(x: number, y: number, r: number, capacity: number, quality: number = 1): FoodSource {
+    return { x, y, r, surgeTimer: 0, capacity, amount: capacity, quality };
+}
+
+// 有限の餌場で、1単位も残っていない
+export function isDepleted(f: FoodSource): boolean {
+    return f.capacity > 0 && f.amount < 1;
+}
+
+// 餌を1単位持ち出す。取れなければ false
+export function takeFood(f: FoodSource): boolean {
+    if (f.capacity <= 0) return true;
+    if (f.amount < 1) return false;
+    f.amount -= 1;
+    return true;
+}
+
+export interface Obstacle {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export function isOverlapping(obstacles: Obstacle[], x: number, y: number, r: number): boolean {
+    for (const obs of obstacles) {
+        if (x + r > obs.x && x - r < obs.x + obs.w &&
+            y + r > obs.y && y - r < obs.y + obs.h) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function createFoods(params: SimParams, obstacles: Obstacle[], rng: Rng): FoodSource[] {
+    const foodSources: FoodSource[] = [];
+    // ランダム配置
+    for (let i = 0; i < params.foodCount; i++) {
+        let f: FoodSource;
+        let attempts = 0;
+        do {
+            f = createFoodSource(
+                rng.next() * (WIDTH - 100) + 50,
+                rng.next() * (HEIGHT - 100) + 50,
+                30,
+                params.foodCapacity
+            );
+            attempts++;
+        } while (isOverlapping(obstacles, f.x, f.y, f.r) && attempts < 100);
+        foodSources.push(f);
+    }
+    return foodSources;
+}
+
+// 巣は順番にコロニーへ割り当てる (各コロニーに最低1つ)
+export function createNests(params: SimParams, obstacles: Obstacle[], rng: Rng): Nest[] {
+    const nests: Nest[] = [];
+    const colonies = colonyCountOf(params);
+    const count = Math.max(params.nestCount, colonies);
+    for (let i = 0; i < count; i++) {
+        const colony = i % colonies;
+        let n: Nest;
+        let attempts = 0;
+        do {
+            if (i === 0 && attempts === 0) {
+                n = { x: WIDTH / 2, y: HEIGHT / 2, r: 20, surgeTimer: 0, delivered: 0, colony };
+            } else {
+                n = {
+                    x: rng.next() * (WIDTH - 100) + 50,
+                    y: rng.next() * (HEIGHT - 100) + 50,
+                    r: 20,
+                    surgeTimer: 0,
+                    delivered: 0,
+                    colony
+                };
+            }
+            attempts++;
+        } while (isOverlapping(obstacles, n.x, n.y, n.r) && attempts < 100);
+        nests.push(n);
+    }
+    return nests;
+}
+
+export function createMaze(rng: Rng): Obstacle[] {
+    const obstacles: Obstacle[] = [];
+    const cellSize = 60; // 少し広めに
+    const cols = Math.floor(WIDTH / cellSize);
+    const rows = Math.floor(HEIGHT / cellSize);
+
+    // 外周
+    obstacles.push({ x: 0, y: 0, w: WIDTH, h: 10 });
+    obstacles.push({ x: 0, y: HEIGHT - 10, w: WIDTH, h: 10 });
+    obstacles.push({ x: 0, y: 0, w: 10, h: HEIGHT });
+    obstacles.push({ x: WIDTH - 10, y: 0, w: 10, h: HEIGHT });
+
+    // 簡易的な壁生成
+    for (let y = 2; y < rows - 1; y += 2) {
+        for (let x = 2; x < cols - 1; x += 2) {
+            const px = x * cellSize;
+            const py = y * cellSize;
+            obstacles.push({ x: px, y: py, w: 10, h: 10 }); // 柱
+
+            // ランダムに壁を伸ばす
+            const dir = Math.floor(rng.next() * 4);
+            switch (dir) {
+                case 0: obstacles.push({ x: px, y: py - cellSize, w: 10, h: cellSize }); break; // 上
+                case 1: obstacles.push({ x: px, y: py, w: 10, h: cellSize }); break; // 下
+                case 2: obstacles.push({ x: px - cellSize, y: py, w: cellSize, h: 10 }); break; // 左
+                case 3: obstacles.push({ x: px, y: py, w: cellSize, h: 10 }); break; // 右
+            }
+        }
+    }
+    return obstacles;
+}
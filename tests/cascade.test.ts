@@ -0,0 +1,34 @@
+// 興奮の連鎖 (カスケード) の規模と深さ
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CascadeTracker } from '../src/cascade';
+
+test('cascade size counts each excited agent once and depth follows the chain', () => {
+    const tracker = new CascadeTracker();
+    const id = tracker.start(10, 0, 0);
+    tracker.excite(11, id, 0, 1, 1);
+    tracker.excite(12, id, 1, 2, 2);
+    tracker.excite(13, id, 2, 3, 3);
+    // 冷めてまた興奮した個体
+    tracker.excite(20, id, 0, 1, 1);
+
+    const [record] = tracker.cascades;
+    assert.equal(record.size, 3);
+    assert.equal(record.excitations, 4);
+    assert.equal(record.depth, 3);
+    assert.deepEqual(tracker.summary, { count: 1, recruited: 4, maxSize: 3, maxDepth: 3 });
+});
+
+test('each discovery starts its own cascade', () => {
+    const tracker = new CascadeTracker();
+    const first = tracker.start(1, 0, 0);
+    const second = tracker.start(2, 5, 1);
+    tracker.excite(3, first, 0, 1, 1);
+    tracker.excite(3, second, 5, 6, 1);
+    tracker.excite(4, second, 6, 7, 2);
+    assert.deepEqual(tracker.cascades.map(c => [c.size, c.depth, c.colony]), [[1, 1, 0], [2, 2, 1]]);
+
+    tracker.reset();
+    assert.deepEqual(tracker.summary, { count: 0, recruited: 0, maxSize: 0, maxDepth: 0 });
+    assert.equal(tracker.cascades.length, 0);
+});
@@ -0,0 +1,56 @@
+// 同じシードと同じパラメータからは、同じ実行が得られること
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from '../src/simulation';
+import { Rng } from '../src/rng';
+import { applyScenario, captureScenario } from '../src/scenario';
+
+// 全個体の位置と状態をまとめた値 (軌跡の比較用)
+function fingerprint(sim: Simulation): string {
+    return sim.agents.map(a => `${a.x.toFixed(6)},${a.y.toFixed(6)},${a.state}`).join(';');
+}
+
+function run(sim: Simulation, ticks: number): Simulation {
+    for (let t = 0; t < ticks; t++) sim.step();
+    return sim;
+}
+
+test('Rng gives the same sequence for the same seed', () => {
+    const a = new Rng(42);
+    const b = new Rng(42);
+    for (let i = 0; i < 100; i++) assert.equal(a.next(), b.next());
+    assert.notEqual(new Rng(43).next(), new Rng(42).next());
+});
+
+test('two simulations with the same seed follow the same trajectory', () => {
+    const a = run(new Simulation({ agentCount: 200 }, 7), 100);
+    const b = run(new Simulation({ agentCount: 200 }, 7), 100);
+    assert.equal(fingerprint(a), fingerprint(b));
+    assert.deepEqual(a.getStats(), b.getStats());
+});
+
+test('a different seed gives a different trajectory', () => {
+    const a = run(new Simulation({ agentCount: 200 }, 7), 100);
+    const b = run(new Simulation({ agentCount: 200 }, 8), 100);
+    assert.notEqual(fingerprint(a), fingerprint(b));
+});
+
+test('reset with the same seed repeats the run', () => {
+    const sim = new Simulation({ agentCount: 200 }, 7);
+    const first = fingerprint(run(sim, 100));
+    sim.reset(7);
+    assert.equal(fingerprint(run(sim, 100)), first);
+});
+
+test('restart and loading a saved scenario repeat a fresh run with the same seed', () => {
+    const fresh = fingerprint(run(new Simulation({ agentCount: 200 }, 7), 100));
+
+    const restarted = new Simulation({ agentCount: 200 }, 7);
+    run(restarted, 50);
+    restarted.restart(7);
+    assert.equal(fingerprint(run(restarted, 100)), fresh);
+
+    const loaded = new Simulation({ agentCount: 200 }, 99);
+    applyScenario(loaded, captureScenario(new Simulation({ agentCount: 200 }, 7)));
+    assert.equal(fingerprint(run(loaded, 100)), fresh);
+});
@@ -0,0 +1,62 @@
+// 予定したイベントの実行と、やり直したときの取り消し
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from '../src/simulation';
+import { parseEvents, readEvent } from '../src/events';
+import { captureScenario } from '../src/scenario';
+
+function run(sim: Simulation, ticks: number): Simulation {
+    for (let t = 0; t < ticks; t++) sim.step();
+    return sim;
+}
+
+test('setParam changes a parameter at its tick and restart undoes it', () => {
+    const sim = new Simulation({ agentCount: 20, moveSpeed: 1.5 }, 1);
+    sim.setEvents(parseEvents('[{ "tick": 5, "type": "setParam", "key": "moveSpeed", "value": 4 }]'));
+    run(sim, 5);
+    assert.equal(sim.params.moveSpeed, 1.5);
+    run(sim, 1);
+    assert.equal(sim.params.moveSpeed, 4);
+    assert.equal(captureScenario(sim).params.moveSpeed, 1.5);
+
+    sim.restart();
+    assert.equal(sim.params.moveSpeed, 1.5);
+});
+
+test('setParam can switch and tune a behaviour rule', () => {
+    const sim = new Simulation({ agentCount: 20 }, 1);
+    sim.setEvents(parseEvents(JSON.stringify([
+        { tick: 3, type: 'setParam', key: 'giveUp.enabled', value: true },
+        { tick: 3, type: 'setParam', key: 'giveUp.timeout', value: 123 }
+    ])));
+    const timeout = sim.rules.paramsOf('giveUp')!.timeout;
+    run(sim, 4);
+    assert.equal(sim.rules.isEnabled('giveUp'), true);
+    assert.equal(sim.rules.paramsOf('giveUp')!.timeout, 123);
+
+    const saved = captureScenario(sim).rules!.find(r => r.id === 'giveUp')!;
+    assert.equal(saved.enabled, false);
+    assert.equal(saved.params.timeout, timeout);
+
+    sim.restart();
+    assert.equal(sim.rules.isEnabled('giveUp'), false);
+    assert.equal(sim.rules.paramsOf('giveUp')!.timeout, timeout);
+});
+
+test('readEvent rejects unknown rules and mistyped values', () => {
+    assert.throws(() => readEvent({ tick: 0, type: 'setParam', key: 'noSuchRule.enabled', value: true }), /Unknown rule/);
+    assert.throws(() => readEvent({ tick: 0, type: 'setParam', key: 'giveUp.enabled', value: 1 }), /Invalid value/);
+    assert.throws(() => readEvent({ tick: 0, type: 'setParam', key: 'noSuchParam', value: 1 }), /Unknown parameter/);
+});
+
+test('restart removes an obstacle added by an event and the event runs again', () => {
+    const sim = new Simulation({ agentCount: 20 }, 1);
+    const obstacles = sim.obstacles.length;
+    sim.setEvents(parseEvents('[{ "tick": 0, "type": "addObstacle", "x": 10, "y": 10, "w": 20, "h": 20 }]'));
+    run(sim, 1);
+    assert.equal(sim.obstacles.length, obstacles + 1);
+    sim.restart();
+    assert.equal(sim.obstacles.length, obstacles);
+    run(sim, 1);
+    assert.equal(sim.obstacles.length, obstacles + 1);
+});
@@ -0,0 +1,49 @@
+// 代謝ルールでの誕生と個体数の上限
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from '../src/simulation';
+import { AgentState } from '../src/config';
+import { defaultRuleSettings, setRuleValue } from '../src/rule-pipeline';
+
+function metabolismRules(values: Record<string, number>) {
+    const rules = defaultRuleSettings();
+    setRuleValue(rules, 'metabolism.enabled', true);
+    for (const [key, value] of Object.entries(values)) setRuleValue(rules, `metabolism.${key}`, value);
+    return rules;
+}
+
+test('brood food is turned into new agents at the nest', () => {
+    const sim = new Simulation({ agentCount: 10 }, 2, metabolismRules({ birthCost: 2 }));
+    sim.colonyStores[0].brood = 7;
+    sim.step();
+    assert.equal(sim.births, 3);
+    assert.equal(sim.population, 13);
+    assert.equal(sim.colonyStores[0].brood, 1);
+});
+
+test('no agents are born once a colony reaches maxColonySize', () => {
+    const sim = new Simulation({ agentCount: 10, colonyCount: 2 }, 2, metabolismRules({ birthCost: 1, maxColonySize: 12 }));
+    sim.colonyStores[0].brood = 100;
+    sim.step();
+    assert.equal(sim.births, 2);
+    assert.equal(sim.getStats().colonies[0].total, 12);
+    assert.equal(sim.getStats().colonies[1].total, 10);
+    // 上限に達している間、幼虫に回した餌は残る
+    assert.equal(sim.colonyStores[0].brood, 98);
+});
+
+test('agents slowed by exploration resistance use less energy', () => {
+    const used = (explorationResistance: number) => {
+        const sim = new Simulation({ agentCount: 1, explorationResistance }, 2, metabolismRules({ energyCapacity: 1000 }));
+        // 巣から離れた、フェロモンのない場所に置く
+        const agent = sim.agents[0];
+        agent.state = AgentState.FORAGING;
+        agent.x = 20;
+        agent.y = 20;
+        agent.excitedLevel = 0;
+        sim.step();
+        return 1 - agent.energy; // energy は Float32 で持つ
+    };
+    assert.ok(Math.abs(used(0) - 1 / 1000) < 1e-6);
+    assert.ok(Math.abs(used(0.5) - 0.5 / 1000) < 1e-6);
+});
@@ -0,0 +1,32 @@
+// ルート集中と撤退の指標
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from '../src/simulation';
+
+function run(sim: Simulation, ticks: number): Simulation {
+    for (let t = 0; t < ticks; t++) sim.step();
+    return sim;
+}
+
+test('trail occupancy counts every agent outside the nest, whatever the rules are', () => {
+    const sim = new Simulation({ agentCount: 50 }, 5);
+    // 匂いを落とすルールを止めても、道の外にいる個体として数える
+    sim.rules.setEnabled('foraging', false);
+    const metrics = run(sim, 30).getMetrics()!;
+    assert.ok(sim.getStats().foraging > 0);
+    assert.equal(metrics.onTrailFraction, 0);
+    assert.equal(metrics.offTrailOccupancy, 1);
+});
+
+test('an agent is not on the trail just because of the pheromone it laid this tick', () => {
+    const sim = new Simulation({ agentCount: 1, singlePheromoneMode: true, spawnRate: 1 }, 5);
+    const metrics = run(sim, 2).getMetrics()!;
+    assert.equal(sim.getStats().foraging, 1);
+    // 道はまだ無い。いまの位置に落とした匂いで「道の上」と数えてはいけない
+    assert.ok(metrics.offTrailOccupancy > 0);
+});
+
+test('withdrawal is only judged with two pheromones', () => {
+    assert.equal(run(new Simulation({ agentCount: 10, singlePheromoneMode: true }, 5), 1).getMetrics()!.withdrawalJudged, false);
+    assert.equal(run(new Simulation({ agentCount: 10, singlePheromoneMode: false }, 5), 1).getMetrics()!.withdrawalJudged, true);
+});
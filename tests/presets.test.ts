@@ -0,0 +1,43 @@
+// 実験配置の計測 (領域に入った回数で数える)
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentState } from '../src/config';
+import { PresetTracker, findPreset } from '../src/presets';
+import type { AgentBuffers } from '../src/snapshot';
+
+// 1体だけの個体バッファ
+function oneAgent(x: number, y: number): AgentBuffers {
+    return {
+        count: 1,
+        x: Float64Array.of(x),
+        y: Float64Array.of(y),
+        state: Uint8Array.of(AgentState.FORAGING),
+        excitedLevel: Uint8Array.of(0),
+        colony: Uint8Array.of(0)
+    };
+}
+
+test('an agent is counted when it enters a region, not for every tick it stays there', () => {
+    const preset = findPreset('double-bridge')!;
+    const a = preset.measure.a[0];
+    const b = preset.measure.b[0];
+    const inA = oneAgent(a.x + a.w / 2, a.y + a.h / 2);
+    const inB = oneAgent(b.x + b.w / 2, b.y + b.h / 2);
+
+    const tracker = new PresetTracker(preset);
+    tracker.record(1, inA);
+    tracker.record(2, inA);
+    tracker.record(3, inA);
+    tracker.record(4, inB);
+    assert.deepEqual(tracker.rows.map(r => [r.a, r.b]), [[1, 0], [0, 0], [0, 0], [0, 1]]);
+    assert.equal(tracker.recentShare(10), 0.5);
+});
+
+test('the tracker starts over when the tick goes back', () => {
+    const preset = findPreset('t-maze')!;
+    const a = preset.measure.a[0];
+    const tracker = new PresetTracker(preset);
+    tracker.record(5, oneAgent(a.x + a.w / 2, a.y + a.h / 2));
+    tracker.record(1, oneAgent(a.x + a.w / 2, a.y + a.h / 2));
+    assert.deepEqual(tracker.rows, [{ tick: 1, a: 1, b: 0 }]);
+});
@@ -0,0 +1,40 @@
+// 実行の記録: 再生用の統計とファイルへの書き出し
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Simulation } from '../src/simulation';
+import { RunRecording, parseRecording } from '../src/recording';
+import { captureScenario } from '../src/scenario';
+import { captureFrame } from '../src/snapshot';
+import { defaultRuleSettings, setRuleValue } from '../src/rule-pipeline';
+
+function record(ticks: number): { sim: Simulation; recording: RunRecording } {
+    const rules = defaultRuleSettings();
+    setRuleValue(rules, 'metabolism.enabled', true);
+    const sim = new Simulation({ agentCount: 50, colonyCount: 2 }, 4, rules);
+    const recording = new RunRecording(captureScenario(sim), 10);
+    for (let i = 0; i < ticks; i++) {
+        sim.step();
+        recording.capture(captureFrame(sim, false));
+    }
+    return { sim, recording };
+}
+
+test('replayed frames give back the stats of the recorded tick', () => {
+    const { sim, recording } = record(30);
+    assert.deepEqual(recording.frameAt(recording.ticks.length - 1).stats, sim.getStats());
+});
+
+test('the per-tick counters are counted in bytes and survive a round trip', () => {
+    const { recording } = record(30);
+    const agentBytes = recording.ticks.reduce((sum, t) => sum + t.xy.byteLength + t.flags.byteLength, 0);
+    const keyBytes = recording.keyframes.reduce((sum, k) => sum + k.layers.length * k.layers[0].home.length * 3, 0);
+    const counterBytes = recording.ticks.reduce((sum, t) => sum + t.counters.byteLength, 0);
+    assert.ok(counterBytes > 0);
+    assert.equal(recording.bytes, agentBytes + keyBytes + counterBytes);
+
+    const parsed = parseRecording(recording.serialize());
+    assert.equal(parsed.bytes, recording.bytes);
+    for (const index of [0, 15, 29]) {
+        assert.deepEqual(parsed.frameAt(index).stats, recording.frameAt(index).stats);
+    }
+});
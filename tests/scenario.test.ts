@@ -0,0 +1,59 @@
+// シナリオの保存・読み込みと、古い版・壊れたファイルの扱い
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { Simulation } from '../src/simulation';
+import { applyScenario, captureScenario, parseScenario } from '../src/scenario';
+
+function run(sim: Simulation, ticks: number): Simulation {
+    for (let t = 0; t < ticks; t++) sim.step();
+    return sim;
+}
+
+test('a saved scenario round-trips through JSON with its pheromones', () => {
+    const sim = run(new Simulation({ agentCount: 100, colonyCount: 2 }, 3), 50);
+    const saved = captureScenario(sim, { includePheromones: true });
+    const parsed = parseScenario(JSON.stringify(saved));
+    assert.deepEqual(parsed, saved);
+
+    const loaded = new Simulation({}, 1);
+    applyScenario(loaded, parsed);
+    assert.equal(loaded.seed, 3);
+    assert.deepEqual(loaded.params, sim.params);
+    assert.deepEqual(loaded.rules.settings, sim.rules.settings);
+    assert.deepEqual(loaded.grids.map(g => g.foodGrid), sim.grids.map(g => g.foodGrid));
+});
+
+test('a truncated pheromone layer is rejected before anything is loaded', () => {
+    const saved = captureScenario(run(new Simulation({ agentCount: 50 }, 3), 10), { includePheromones: true });
+    const layer = saved.pheromones!.layers[0];
+    layer.food = layer.food.slice(0, 1000);
+    assert.throws(() => parseScenario(JSON.stringify(saved)), /Pheromone layer 0\.food/);
+});
+
+test('a pheromone snapshot of another grid size is rejected', () => {
+    const saved = captureScenario(new Simulation({ agentCount: 50 }, 3), { includePheromones: true });
+    saved.pheromones!.width = 100;
+    assert.throws(() => parseScenario(JSON.stringify(saved)), /Pheromone snapshot is 100x/);
+});
+
+test('a v8 scenario moves the old rule switches and settings into the rules, events included', () => {
+    const scenario = parseScenario(readFileSync(new URL('./fixtures/scenario-v8.json', import.meta.url), 'utf8'));
+    const giveUp = scenario.rules!.find(r => r.id === 'giveUp')!;
+    assert.equal(giveUp.enabled, false); // enableGiveUp が false だった
+    assert.equal(giveUp.params.timeout, 900);
+    assert.deepEqual(scenario.events!.map(e => e.type === 'setParam' && [e.key, e.value]), [
+        ['giveUp.enabled', true],
+        ['giveUp.timeout', 600],
+        // 並びで無効だったルールはスイッチを入れても動かなかった
+        ['colonyEncounter.enabled', false],
+        ['contagion.contactRadius', 12],
+        ['moveSpeed', 2]
+    ]);
+
+    const sim = new Simulation({}, 1);
+    applyScenario(sim, scenario);
+    run(sim, 101);
+    assert.equal(sim.rules.isEnabled('giveUp'), true);
+    assert.equal(sim.rules.paramsOf('giveUp')!.timeout, 600);
+});
@@ -0,0 +1,50 @@
+// 時系列の記録の上限と間引き
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TimeSeriesRecorder } from '../src/timeseries';
+import { DEFAULT_PARAMS } from '../src/config';
+import { defaultRuleSettings, setRuleValue } from '../src/rule-pipeline';
+import type { SimStats } from '../src/simulation';
+
+function stats(tick: number): SimStats {
+    return {
+        tick, total: 0, foraging: 0, returning: 0, returningHome: 0, inNest: 0, excited2: 0, excited1: 0, giveUps: 0,
+        deaths: 0, births: 0, deliveriesPerNest: [], foodRemaining: 0, colonies: []
+    };
+}
+
+test('the recorder thins its rows instead of growing past the limit', () => {
+    const recorder = new TimeSeriesRecorder(100);
+    for (let tick = 1; tick <= 1000; tick++) {
+        if (recorder.accepts(tick)) recorder.record(stats(tick));
+    }
+    assert.ok(recorder.rows.length <= 100);
+    assert.equal(recorder.stride, 16);
+    // 残った行は最初から最後まで同じ間隔で並ぶ
+    assert.deepEqual(recorder.rows.map(r => r.tick), Array.from({ length: 62 }, (_, i) => (i + 1) * 16));
+});
+
+test('a reset clears the rows and the stride', () => {
+    const recorder = new TimeSeriesRecorder(10);
+    for (let tick = 1; tick <= 100; tick++) recorder.record(stats(tick));
+    assert.ok(recorder.stride > 1);
+    assert.equal(recorder.accepts(1), true);
+    recorder.record(stats(1));
+    assert.equal(recorder.stride, 1);
+    assert.deepEqual(recorder.rows.map(r => r.tick), [1]);
+});
+
+test('the CSV header records each rule switch and parameter', () => {
+    const recorder = new TimeSeriesRecorder();
+    recorder.record(stats(1));
+    const rules = defaultRuleSettings();
+    setRuleValue(rules, 'giveUp.enabled', true);
+    setRuleValue(rules, 'giveUp.timeout', 600);
+    const csv = recorder.toCSV(DEFAULT_PARAMS, rules, 7);
+    assert.match(csv, /^# giveUp\.enabled=true$/m);
+    assert.match(csv, /^# giveUp\.timeout=600$/m);
+    assert.match(csv, /^# repellent\.enabled=false$/m);
+
+    setRuleValue(rules, 'giveUp.enabled', false);
+    assert.match(recorder.toCSV(DEFAULT_PARAMS, rules, 7), /^# giveUp\.enabled=false$/m);
+});